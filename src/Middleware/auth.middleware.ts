@@ -1,11 +1,22 @@
 import { NextFunction, Request, Response } from "express";
 import ResponseHandler from "../helpers/ResponseHandler.js";
 import { verify } from "securex";
+import TokenService from "../services/Token/tokenService.js";
+import PermissionService from "../services/Permission/permissionService.js";
+import ApiKeyService from "../services/ApiKey/apiKeyService.js";
+import UserService from "../services/User/userService.js";
+import { Permission } from "../models/Role.js";
 
 class AuthMiddleware {
+    // API keys are only accepted where the route declares the scopes it needs, through verifyAccessTokenOrApiKey
     static async verifyAccessToken(req: Request, res: Response, next: NextFunction) {
         try {
             const token = req.headers.authorization?.split(" ")[1];
+            if (!token && req.get("x-api-key")) {
+                return ResponseHandler.sendResponse(res, 403, false, "This resource cannot be accessed with an API key", {
+                    code: "FORBIDDEN"
+                });
+            }
             if (!token) {
                 return ResponseHandler.sendResponse(res, 401, false, "Access token is required", null);
             }
@@ -16,10 +27,54 @@ class AuthMiddleware {
             if (decoded.type !== "access") {
                 return ResponseHandler.sendResponse(res, 401, false, "Invalid access token", null);
             }
+            const isRevoked = await TokenService.isAccessTokenRevoked(decoded);
+            if (isRevoked) {
+                return ResponseHandler.sendResponse(res, 401, false, "Access token has been revoked", null);
+            }
+            // A disabled account is rejected like a missing one, matching API key authentication
+            const user = await UserService.getUserById(decoded.userId);
+            if (!user || user.disabled) {
+                return ResponseHandler.sendResponse(res, 401, false, "Access token has been revoked", null);
+            }
+            if (user.suspended) {
+                return ResponseHandler.sendResponse(res, 403, false, "This account has been suspended", {
+                    code: "ACCOUNT_SUSPENDED"
+                });
+            }
             (req as any).user = {
                 id: decoded.userId,
                 email: decoded.email,
-                role: decoded.role
+                role: decoded.role,
+                authType: "token",
+                sessionId: decoded.sessionId
+            };
+            next();
+        } catch (error: any) {
+            const message = error?.message ?? "Unauthorized user";
+            return ResponseHandler.sendResponse(res, 401, false, message, null);
+        }
+    }
+
+    // Accept an API key in place of an access token, for routes guarded by requirePermission which checks the key's scopes
+    static async verifyAccessTokenOrApiKey(req: Request, res: Response, next: NextFunction) {
+        const token = req.headers.authorization?.split(" ")[1];
+        const apiKey = req.get("x-api-key");
+        if (token || !apiKey) {
+            return AuthMiddleware.verifyAccessToken(req, res, next);
+        }
+
+        try {
+            const result = await ApiKeyService.authenticate(apiKey);
+            if (!result) {
+                return ResponseHandler.sendResponse(res, 401, false, "Invalid API key", null);
+            }
+            (req as any).user = {
+                id: result.user.userId,
+                email: result.user.email,
+                role: result.user.role,
+                authType: "api_key",
+                apiKeyId: result.apiKey.keyId,
+                scopes: result.apiKey.scopes
             };
             next();
         } catch (error: any) {
@@ -41,6 +96,42 @@ class AuthMiddleware {
         }
     }
 
+    // Reject API key authentication on routes that need a signed-in user
+    static async requireUserToken(req: Request, res: Response, next: NextFunction) {
+        const user = (req as any).user;
+        if (user?.authType === "api_key") {
+            return ResponseHandler.sendResponse(res, 403, false, "This resource cannot be accessed with an API key", {
+                code: "FORBIDDEN"
+            });
+        }
+        next();
+    }
+
+    // Require every listed permission for the authenticated user's role
+    static requirePermission(...permissions: Permission[]) {
+        return (req: Request, res: Response, next: NextFunction) => {
+            try {
+                const user = (req as any).user;
+                if (!user) {
+                    return ResponseHandler.sendResponse(res, 401, false, "Unauthorized user", null);
+                }
+                // API keys are limited to their scopes on top of the owner's role
+                const isAllowed = permissions.every(permission =>
+                    PermissionService.hasPermission(user.role, permission) &&
+                    (user.authType !== "api_key" || user.scopes?.includes(permission))
+                );
+                if (!isAllowed) {
+                    return ResponseHandler.sendResponse(res, 403, false, "You do not have permission to access this resource", {
+                        code: "FORBIDDEN"
+                    });
+                }
+                next();
+            } catch (error: any) {
+                const message = error?.message ?? "Unauthorized user";
+                return ResponseHandler.sendResponse(res, 401, false, message, null);
+            }
+        };
+    }
 
 }
 
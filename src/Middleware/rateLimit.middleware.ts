@@ -0,0 +1,55 @@
+import { NextFunction, Request, Response } from "express";
+import { createHash } from "crypto";
+import ResponseHandler from "../helpers/ResponseHandler.js";
+import CacheService from "../services/Cache/cacheService.js";
+
+interface RateLimitOptions {
+    scope: string;
+    windowSeconds: number;
+    maxAttempts: number;
+    // Extracts the account identifier (email, token, ...) to limit alongside the IP
+    identifier?: (req: Request) => string | undefined;
+}
+
+class RateLimitMiddleware {
+    static limit(options: RateLimitOptions) {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            try {
+                const keys = [`${options.scope}:ip:${req.ip}`];
+
+                const identifier = options.identifier?.(req);
+                if (identifier) {
+                    // Hash identifiers so emails and tokens never end up in Redis key names
+                    const identifierHash = createHash("sha256").update(String(identifier).trim().toLowerCase()).digest("hex");
+                    keys.push(`${options.scope}:id:${identifierHash}`);
+                }
+
+                const results = await Promise.all(keys.map(key =>
+                    CacheService.recordRateLimitHit(key, options.windowSeconds)
+                ));
+
+                let retryAfterSeconds = 0;
+                for (const result of results) {
+                    if (result && result.count > options.maxAttempts) {
+                        retryAfterSeconds = Math.max(retryAfterSeconds, result.retryAfterSeconds);
+                    }
+                }
+
+                if (retryAfterSeconds > 0) {
+                    res.set("Retry-After", String(retryAfterSeconds));
+                    return ResponseHandler.sendResponse(res, 429, false, "Too many requests, please try again later", {
+                        code: "RATE_LIMITED",
+                        retryAfter: retryAfterSeconds
+                    });
+                }
+                next();
+            } catch (error: any) {
+                // Fail open so an unavailable cache never blocks authentication
+                console.error('Rate limit error:', error?.message ?? "Unknown error");
+                next();
+            }
+        };
+    }
+}
+
+export default RateLimitMiddleware;
@@ -0,0 +1,49 @@
+import { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import ResponseHandler from "../helpers/ResponseHandler.js";
+
+class UploadMiddleware {
+    private static readonly ALLOWED_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+    private static getMaxFileSize(): number {
+        return Number(process.env.UPLOAD_MAX_FILE_SIZE || String(2 * 1024 * 1024)); // 2 MB
+    }
+
+    // Accept a single image in memory; the file content is checked again by ImageService
+    static image(fieldName: string) {
+        const upload = multer({
+            storage: multer.memoryStorage(),
+            limits: { fileSize: this.getMaxFileSize(), files: 1 },
+            fileFilter: (req, file, callback) => {
+                if (!this.ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+                    return callback(new multer.MulterError("LIMIT_UNEXPECTED_FILE", file.fieldname));
+                }
+                callback(null, true);
+            }
+        }).single(fieldName);
+
+        return (req: Request, res: Response, next: NextFunction) => {
+            upload(req, res, (error: any) => {
+                if (error instanceof multer.MulterError) {
+                    if (error.code === "LIMIT_FILE_SIZE") {
+                        return ResponseHandler.sendResponse(res, 413, false, `File must be at most ${Math.floor(this.getMaxFileSize() / 1024)} KB`, { code: "FILE_TOO_LARGE" });
+                    }
+                    if (error.code === "LIMIT_UNEXPECTED_FILE" && error.field === fieldName) {
+                        return ResponseHandler.sendResponse(res, 415, false, "Only JPEG, PNG and WebP images are allowed", { code: "UNSUPPORTED_MEDIA_TYPE" });
+                    }
+                    return ResponseHandler.sendResponse(res, 400, false, `Upload a single file in the "${fieldName}" field`, { code: "INVALID_UPLOAD" });
+                }
+                if (error) {
+                    console.error('Upload error:', error?.message ?? "Unknown error");
+                    return ResponseHandler.sendResponse(res, 400, false, "Upload failed", { code: "INVALID_UPLOAD" });
+                }
+                if (!req.file) {
+                    return ResponseHandler.sendResponse(res, 400, false, `An image is required in the "${fieldName}" field`, { code: "FILE_REQUIRED" });
+                }
+                next();
+            });
+        };
+    }
+}
+
+export default UploadMiddleware;
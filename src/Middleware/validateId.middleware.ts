@@ -0,0 +1,18 @@
+import { NextFunction, Request, Response } from "express";
+import ResponseHandler from "../helpers/ResponseHandler.js";
+import IdService from "../services/Id/idService.js";
+import { IdPrefix } from "../models/Id.js";
+
+class ValidateIdMiddleware {
+    // Router param handler rejecting malformed IDs before they reach the cache or DB
+    static param(prefix: IdPrefix) {
+        return (req: Request, res: Response, next: NextFunction, value: string, name: string) => {
+            if (!IdService.isValid(value, prefix)) {
+                return ResponseHandler.sendResponse(res, 400, false, `Invalid ${name}`, { code: "INVALID_ID" });
+            }
+            next();
+        };
+    }
+}
+
+export default ValidateIdMiddleware;
@@ -2,6 +2,7 @@ import express from "express";
 import dotenv from "dotenv";
 import mainRouter from "./routes/index.js";
 import AppHelper from "./helpers/AppHelper.js";
+import LocalDiskStorage from "./services/Storage/localDiskStorage.js";
 dotenv.config();
 
 const PORT = process.env.PORT || 3000;
@@ -42,6 +43,14 @@ app.get("/health", async (req, res) => {
 // Routes
 app.use("/api", mainRouter);
 
+// Files stored by the local disk storage driver
+app.use(LocalDiskStorage.PUBLIC_PATH, express.static(LocalDiskStorage.getRootDir(), {
+    index: false,
+    setHeaders: (res) => {
+        res.set("X-Content-Type-Options", "nosniff");
+    }
+}));
+
 // Graceful shutdown handlers
 process.on('SIGTERM', AppHelper.gracefulShutdown);
 process.on('SIGINT', AppHelper.gracefulShutdown);
@@ -0,0 +1,181 @@
+import { Request, Response } from "express";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import UserService from "../../services/User/userService.js";
+import PermissionService from "../../services/Permission/permissionService.js";
+import AuditService from "../../services/Audit/auditService.js";
+import IdentityService from "../../services/Identity/identityService.js";
+import BrandService from "../../services/Brand/brandService.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
+import { AuditEventFilters, AuditOutcome } from "../../models/AuditEvent.js";
+
+class AdminController {
+    static async getRoles(req: Request, res: Response) {
+        try {
+            const roles = PermissionService.getRoles();
+            return ResponseHandler.sendResponse(res, 200, true, "Roles fetched successfully", roles);
+        } catch (error: any) {
+            console.error('Get roles error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching roles failed");
+        }
+    };
+    static async listUsers(req: Request, res: Response) {
+        try {
+            const page = Math.max(parseInt(String(req.query.page ?? "1")) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "10")) || 10, 1), 100);
+            const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+
+            const result = search
+                ? await UserService.searchUsers(search, page, limit)
+                : await UserService.getAllUsersPaginated(page, limit);
+            if (!result) {
+                return ResponseHandler.sendResponse(res, 500, false, "Fetching users failed", null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, "Users fetched successfully", {
+                ...result,
+                users: result.users.map(user => UserService.toAdminUser(user))
+            });
+        } catch (error: any) {
+            console.error('List users error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching users failed");
+        }
+    };
+    static async getUser(req: Request, res: Response) {
+        try {
+            const user = await UserService.getUserById(String(req.params.userId));
+            if (!user) {
+                return ResponseHandler.sendResponse(res, 404, false, "User not found", null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, "User fetched successfully", UserService.toAdminUser(user));
+        } catch (error: any) {
+            console.error('Get user error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching user failed");
+        }
+    };
+    static async getUserIdentity(req: Request, res: Response) {
+        try {
+            const actorId = (req as any).user.id;
+            const identity = await IdentityService.getMaskedIdentity(String(req.params.userId), actorId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Identity fetched successfully", identity);
+        } catch (error: any) {
+            console.error('Get user identity error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching identity failed");
+        }
+    };
+    static async suspendUser(req: Request, res: Response) {
+        try {
+            const actorId = (req as any).user.id;
+            const { reason } = req.body ?? {};
+            if (!reason || typeof reason !== "string" || !reason.trim()) {
+                return ResponseHandler.sendResponse(res, 400, false, "Reason is required", null);
+            }
+            const user = await UserService.suspendUser(String(req.params.userId), reason.trim().slice(0, 500), actorId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "User suspended successfully", UserService.toAdminUser(user));
+        } catch (error: any) {
+            console.error('Suspend user error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Suspending user failed");
+        }
+    };
+    static async unsuspendUser(req: Request, res: Response) {
+        try {
+            const actorId = (req as any).user.id;
+            const user = await UserService.unsuspendUser(String(req.params.userId), actorId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "User unsuspended successfully", UserService.toAdminUser(user));
+        } catch (error: any) {
+            console.error('Unsuspend user error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Unsuspending user failed");
+        }
+    };
+    static async deleteUser(req: Request, res: Response) {
+        try {
+            const actorId = (req as any).user.id;
+            const userId = String(req.params.userId);
+            if (userId === actorId) {
+                return ResponseHandler.sendResponse(res, 403, false, "You cannot delete your own account here", { code: "FORBIDDEN" });
+            }
+            const result = await UserService.deleteUserById(userId, actorId, RequestHelper.getClientContext(req));
+            if (!result.success) {
+                const statusCode = result.message === "User not found" ? 404 : 400;
+                return ResponseHandler.sendResponse(res, statusCode, false, result.message, null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, result.message, null);
+        } catch (error: any) {
+            console.error('Delete user error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Deleting user failed");
+        }
+    };
+    static async changeUserRole(req: Request, res: Response) {
+        try {
+            const actorId = (req as any).user.id;
+            const userId = String(req.params.userId);
+            const { role } = req.body ?? {};
+            if (!role) {
+                return ResponseHandler.sendResponse(res, 400, false, "Role is required", null);
+            }
+            const user = await UserService.changeUserRole(userId, role, actorId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "User role updated successfully", {
+                userId: user.userId,
+                role: user.role,
+                permissions: PermissionService.getPermissionsForRole(user.role)
+            });
+        } catch (error: any) {
+            console.error('Change user role error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Changing user role failed");
+        }
+    };
+    static async listBrandsForReview(req: Request, res: Response) {
+        try {
+            const page = Math.max(parseInt(String(req.query.page ?? "1")) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "10")) || 10, 1), 100);
+            const status = typeof req.query.status === "string" ? req.query.status : "submitted";
+            const result = await BrandService.getBrandsByStatus(status, page, limit);
+            return ResponseHandler.sendResponse(res, 200, true, "Brands fetched successfully", result);
+        } catch (error: any) {
+            console.error('List brands for review error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching brands failed");
+        }
+    };
+    static async reviewBrand(req: Request, res: Response) {
+        try {
+            const actorId = (req as any).user.id;
+            const { status, note } = req.body ?? {};
+            const brand = await BrandService.reviewBrand(String(req.params.brandId), actorId, status, note, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Brand status updated successfully", brand);
+        } catch (error: any) {
+            console.error('Review brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Updating brand status failed");
+        }
+    };
+    static async getAuditEvents(req: Request, res: Response) {
+        try {
+            const { action, actorId, targetId, outcome, from, to } = req.query;
+            const page = Math.max(parseInt(String(req.query.page ?? "1")) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "20")) || 20, 1), 100);
+
+            if (outcome && outcome !== "success" && outcome !== "failure") {
+                return ResponseHandler.sendResponse(res, 400, false, "Outcome must be success or failure", null);
+            }
+            for (const date of [from, to]) {
+                if (date && isNaN(Date.parse(String(date)))) {
+                    return ResponseHandler.sendResponse(res, 400, false, "Invalid date filter", null);
+                }
+            }
+
+            const filters: AuditEventFilters = {
+                action: action ? String(action) : undefined,
+                actorId: actorId ? String(actorId) : undefined,
+                targetId: targetId ? String(targetId) : undefined,
+                outcome: outcome ? outcome as AuditOutcome : undefined,
+                from: from ? String(from) : undefined,
+                to: to ? String(to) : undefined
+            };
+
+            const result = await AuditService.queryEvents(filters, page, limit);
+            return ResponseHandler.sendResponse(res, 200, true, "Audit events fetched successfully", result);
+        } catch (error: any) {
+            console.error('Get audit events error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching audit events failed");
+        }
+    };
+}
+
+export default AdminController;
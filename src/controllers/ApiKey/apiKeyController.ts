@@ -0,0 +1,46 @@
+import { Request, Response } from "express";
+import Validator from "../../helpers/Validator.js";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import ApiKeyService from "../../services/ApiKey/apiKeyService.js";
+
+class ApiKeyController {
+    static async create(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const body = req.body ?? {};
+            const requiredFields = ["name", "scopes"];
+            const { isValid, missingFields } = Validator.validate(requiredFields, body);
+            if (!isValid) {
+                return ResponseHandler.sendResponse(res, 400, false, "Please fill in all the required fields.", missingFields);
+            }
+            const { name, scopes, expiresindays } = body;
+            const result = await ApiKeyService.createApiKey(userId, { name, scopes, expiresindays });
+            return ResponseHandler.sendResponse(res, 201, true, "API key created successfully. Store it now, it will not be shown again.", result);
+        } catch (error: any) {
+            console.error('Create API key error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Creating API key failed");
+        }
+    };
+    static async list(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const apiKeys = await ApiKeyService.listApiKeys(userId);
+            return ResponseHandler.sendResponse(res, 200, true, "API keys fetched successfully", apiKeys);
+        } catch (error: any) {
+            console.error('List API keys error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching API keys failed");
+        }
+    };
+    static async revoke(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            await ApiKeyService.revokeApiKey(String(req.params.keyId), { id: user.id, role: user.role });
+            return ResponseHandler.sendResponse(res, 200, true, "API key revoked successfully", null);
+        } catch (error: any) {
+            console.error('Revoke API key error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Revoking API key failed");
+        }
+    };
+}
+
+export default ApiKeyController;
@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import Validator from "../../helpers/Validator.js";
 import ResponseHandler from "../../helpers/ResponseHandler.js";
 import AuthService from "../../services/Auth/authService.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
 
 class AuthController {
     static async register(req: Request, res: Response) {
@@ -16,7 +17,7 @@ class AuthController {
             const { email, password, confirmpassword, firstname, lastname, ssn, billingdata, refferalcode } = body;
             const result = await AuthService.registerUser({
                 email, password, confirmpassword, firstname, lastname, ssn, billingdata, refferalcode
-            });
+            }, RequestHelper.getClientContext(req));
 
             return ResponseHandler.sendResponse(res, 201, true, result.message, {
                 refreshToken: result.userRefreshToken,
@@ -27,12 +28,41 @@ class AuthController {
 
         } catch (error: any) {
             console.error('Register user error:', error?.message ?? "Unknown error");
-            return ResponseHandler.sendResponse(res, 400, false, error.message || "Registration failed", null);
+            return ResponseHandler.sendErrorResponse(res, error, "Registration failed");
         }
     };
     static async login(req: Request, res: Response) {
-        res.status(200).send({ message: "Login endpoint" });
-        return;
+        try {
+            const body = req.body ?? {};
+            const requiredFields = ["email", "password"];
+            const { isValid, missingFields } = Validator.validate(requiredFields, body);
+            if (!isValid) {
+                return ResponseHandler.sendResponse(res, 400, false, "Please fill in all the required fields.", missingFields);
+            }
+
+            const { email, password } = body;
+            const result = await AuthService.loginUser(email, password, RequestHelper.getClientContext(req));
+
+            if ("mfaToken" in result) {
+                return ResponseHandler.sendResponse(res, 200, true, result.message, {
+                    mfaRequired: result.mfaRequired,
+                    mfaEnrollmentRequired: result.mfaEnrollmentRequired,
+                    mfaToken: result.mfaToken,
+                    userId: result.userId,
+                    success: result.success
+                });
+            }
+
+            return ResponseHandler.sendResponse(res, 200, true, result.message, {
+                refreshToken: result.refreshToken,
+                accessToken: result.accessToken,
+                userId: result.userId,
+                success: result.success
+            });
+        } catch (error: any) {
+            console.error('Login user error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Login failed");
+        }
     };
 
     static async verifyEmail(req: Request, res: Response) {
@@ -43,7 +73,7 @@ class AuthController {
             if (!token) {
                 return ResponseHandler.sendResponse(res, 400, false, "Verification link is not valid", null);
             }
-            const result = await AuthService.verifyEmail(token);
+            const result = await AuthService.verifyEmail(token, RequestHelper.getClientContext(req));
             return ResponseHandler.sendResponse(res, 200, true, result.message, null);
 
         } catch (error: any) {
@@ -51,13 +81,55 @@ class AuthController {
             return ResponseHandler.sendResponse(res, 400, false, error.message || "Email verification failed", null);
         }
     };
-    static async forgotPassword(req: Request, res: Response) {
+    static async resendVerification(req: Request, res: Response) {
+        try {
+            const { email } = req.body ?? {};
+            if (!email) {
+                return ResponseHandler.sendResponse(res, 400, false, "Email is required", null);
+            }
+            const result = await AuthService.resendVerificationEmail(String(email), RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, null);
+        } catch (error: any) {
+            console.error('Resend verification error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Resending verification email failed");
+        }
+    }
+    static async changeEmail(req: Request, res: Response) {
         try {
             const userId = (req as any).user.id;
-            if (!userId) {
-                return ResponseHandler.sendResponse(res, 400, false, "User ID is required", null);
+            const body = req.body ?? {};
+            const requiredFields = ["newemail", "password"];
+            const { isValid, missingFields } = Validator.validate(requiredFields, body);
+            if (!isValid) {
+                return ResponseHandler.sendResponse(res, 400, false, "Please fill in all the required fields.", missingFields);
             }
-            const result = await AuthService.forgotPassword(userId);
+            const result = await AuthService.requestEmailChange(userId, String(body.newemail), String(body.password), RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, null);
+        } catch (error: any) {
+            console.error('Change email error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Email change failed");
+        }
+    }
+    static async confirmEmailChange(req: Request, res: Response) {
+        try {
+            const token = req.query.token ? String(req.query.token) : req.body?.token;
+            if (!token) {
+                return ResponseHandler.sendResponse(res, 400, false, "Email change link is not valid", null);
+            }
+            const result = await AuthService.confirmEmailChange(token, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, null);
+        } catch (error: any) {
+            console.error('Confirm email change error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Email change failed");
+        }
+    }
+    static async forgotPassword(req: Request, res: Response) {
+        try {
+            const { email } = req.body ?? {};
+            if (!email) {
+                return ResponseHandler.sendResponse(res, 400, false, "Email is required", null);
+            }
+            const result = await AuthService.forgotPassword(String(email), RequestHelper.getClientContext(req));
             return ResponseHandler.sendResponse(res, 200, true, result.message, null);
         } catch (error: any) {
             console.error('Forgot password error:', error?.message ?? "Unknown error");
@@ -80,7 +152,7 @@ class AuthController {
             if (password !== confirmpassword) {
                 return ResponseHandler.sendResponse(res, 400, false, "Password and Confirm Password do not match", null);
             }
-            const result = await AuthService.resetPassword(token, password);
+            const result = await AuthService.resetPassword(token, password, RequestHelper.getClientContext(req));
             return ResponseHandler.sendResponse(res, 200, true, result.message, null);
         } catch (error: any) {
             return ResponseHandler.sendResponse(res, 400, false, error?.message || "Password reset failed", null);
@@ -92,16 +164,39 @@ class AuthController {
             if (!refreshToken) {
                 return ResponseHandler.sendResponse(res, 400, false, "Refresh token is required", null);
             }
-            const result = await AuthService.refreshToken(refreshToken);
+            const result = await AuthService.refreshToken(refreshToken, RequestHelper.getClientContext(req));
             return ResponseHandler.sendResponse(res, 200, true, result.message, {
                 accessToken: result.accessToken,
                 refreshToken: result.refreshToken
             });
         } catch (error: any) {
-            return ResponseHandler.sendResponse(res, 400, false, error?.message || "Refresh token failed", null);
+            return ResponseHandler.sendErrorResponse(res, error, "Refresh token failed");
 
         }
     }
+    static async logout(req: Request, res: Response) {
+        try {
+            const { refreshToken } = req.body ?? {};
+            if (!refreshToken) {
+                return ResponseHandler.sendResponse(res, 400, false, "Refresh token is required", null);
+            }
+            const result = await AuthService.logout(refreshToken, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, null);
+        } catch (error: any) {
+            return ResponseHandler.sendErrorResponse(res, error, "Logout failed");
+        }
+    }
+    static async logoutAll(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const result = await AuthService.logoutAll(userId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, {
+                revokedSessions: result.revokedCount
+            });
+        } catch (error: any) {
+            return ResponseHandler.sendErrorResponse(res, error, "Logout failed");
+        }
+    }
 }
 
 
@@ -0,0 +1,133 @@
+import { Request, Response } from "express";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
+import BrandService from "../../services/Brand/brandService.js";
+
+class BrandController {
+    static async create(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const brand = await BrandService.createBrand(userId, req.body ?? {}, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 201, true, "Brand created successfully", brand);
+        } catch (error: any) {
+            console.error('Create brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Creating brand failed");
+        }
+    };
+    static async list(req: Request, res: Response) {
+        try {
+            const page = Math.max(parseInt(String(req.query.page ?? "1")) || 1, 1);
+            const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "10")) || 10, 1), 100);
+            const result = await BrandService.getAllBrandsPaginated(page, limit);
+            if (!result) {
+                return ResponseHandler.sendResponse(res, 500, false, "Fetching brands failed", null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, "Brands fetched successfully", result);
+        } catch (error: any) {
+            console.error('List brands error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching brands failed");
+        }
+    };
+    static async search(req: Request, res: Response) {
+        try {
+            const result = await BrandService.searchBrands(req.query as Record<string, any>);
+            return ResponseHandler.sendResponse(res, 200, true, "Brands fetched successfully", result);
+        } catch (error: any) {
+            console.error('Search brands error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Searching brands failed");
+        }
+    };
+    static async get(req: Request, res: Response) {
+        try {
+            const brand = await BrandService.getBrandById(String(req.params.brandId));
+            if (!brand) {
+                return ResponseHandler.sendResponse(res, 404, false, "Brand not found", null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, "Brand fetched successfully", brand);
+        } catch (error: any) {
+            console.error('Get brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching brand failed");
+        }
+    };
+    static async update(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const brand = await BrandService.updateBrand(String(req.params.brandId), { id: user.id, role: user.role }, req.body ?? {}, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Brand updated successfully", brand);
+        } catch (error: any) {
+            console.error('Update brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Updating brand failed");
+        }
+    };
+    static async uploadLogo(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const brand = await BrandService.updateBrandLogo(String(req.params.brandId), { id: user.id, role: user.role }, req.file!, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Brand logo uploaded successfully", brand);
+        } catch (error: any) {
+            console.error('Upload brand logo error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Uploading brand logo failed");
+        }
+    };
+    static async getMine(req: Request, res: Response) {
+        try {
+            const brand = await BrandService.getOwnBrand((req as any).user.id);
+            return ResponseHandler.sendResponse(res, 200, true, "Brand fetched successfully", brand);
+        } catch (error: any) {
+            console.error('Get own brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching brand failed");
+        }
+    };
+    static async submit(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const brand = await BrandService.submitBrand(String(req.params.brandId), { id: user.id, role: user.role }, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Brand submitted for review", brand);
+        } catch (error: any) {
+            console.error('Submit brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Submitting brand failed");
+        }
+    };
+    static async requestTransfer(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const transfer = await BrandService.requestOwnershipTransfer(String(req.params.brandId), userId, req.body?.userId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 201, true, "Ownership transfer requested, the new owner has to accept it", transfer);
+        } catch (error: any) {
+            console.error('Request brand transfer error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Requesting ownership transfer failed");
+        }
+    };
+    static async acceptTransfer(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const brand = await BrandService.acceptOwnershipTransfer(String(req.params.brandId), userId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "You are now the owner of this brand", brand);
+        } catch (error: any) {
+            console.error('Accept brand transfer error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Accepting ownership transfer failed");
+        }
+    };
+    static async cancelTransfer(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            await BrandService.cancelOwnershipTransfer(String(req.params.brandId), userId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Ownership transfer cancelled", null);
+        } catch (error: any) {
+            console.error('Cancel brand transfer error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Cancelling ownership transfer failed");
+        }
+    };
+    static async delete(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            await BrandService.deleteBrand(String(req.params.brandId), { id: user.id, role: user.role }, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Brand deleted successfully", null);
+        } catch (error: any) {
+            console.error('Delete brand error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Deleting brand failed");
+        }
+    };
+}
+
+export default BrandController;
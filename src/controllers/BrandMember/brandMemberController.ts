@@ -0,0 +1,92 @@
+import { Request, Response } from "express";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
+import BrandMemberService from "../../services/BrandMember/brandMemberService.js";
+
+class BrandMemberController {
+    static async listMembers(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const members = await BrandMemberService.listMembers(String(req.params.brandId), { id: user.id, role: user.role });
+            return ResponseHandler.sendResponse(res, 200, true, "Members fetched successfully", members);
+        } catch (error: any) {
+            console.error('List brand members error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching members failed");
+        }
+    };
+    static async updateMemberRole(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const member = await BrandMemberService.updateMemberRole(String(req.params.brandId), String(req.params.userId), req.body?.role, { id: user.id, role: user.role }, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Member role updated successfully", member);
+        } catch (error: any) {
+            console.error('Update brand member error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Updating member failed");
+        }
+    };
+    static async removeMember(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            await BrandMemberService.removeMember(String(req.params.brandId), String(req.params.userId), { id: user.id, role: user.role }, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Member removed successfully", null);
+        } catch (error: any) {
+            console.error('Remove brand member error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Removing member failed");
+        }
+    };
+    static async listMemberships(req: Request, res: Response) {
+        try {
+            const memberships = await BrandMemberService.listMembershipsForUser((req as any).user.id);
+            return ResponseHandler.sendResponse(res, 200, true, "Memberships fetched successfully", memberships);
+        } catch (error: any) {
+            console.error('List brand memberships error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching memberships failed");
+        }
+    };
+    static async invite(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const { email, role } = req.body ?? {};
+            const invitation = await BrandMemberService.inviteMember(String(req.params.brandId), { id: user.id, role: user.role }, email, role, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 201, true, "Invitation sent successfully", invitation);
+        } catch (error: any) {
+            console.error('Invite brand member error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Sending invitation failed");
+        }
+    };
+    static async listInvitations(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const invitations = await BrandMemberService.listInvitations(String(req.params.brandId), { id: user.id, role: user.role });
+            return ResponseHandler.sendResponse(res, 200, true, "Invitations fetched successfully", invitations);
+        } catch (error: any) {
+            console.error('List brand invitations error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching invitations failed");
+        }
+    };
+    static async revokeInvitation(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            await BrandMemberService.revokeInvitation(String(req.params.brandId), String(req.params.invitationId), { id: user.id, role: user.role }, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Invitation revoked successfully", null);
+        } catch (error: any) {
+            console.error('Revoke brand invitation error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Revoking invitation failed");
+        }
+    };
+    static async acceptInvitation(req: Request, res: Response) {
+        try {
+            const token = req.query.token ? String(req.query.token) : req.body?.token;
+            if (!token) {
+                return ResponseHandler.sendResponse(res, 400, false, "Invitation link is not valid", null);
+            }
+            const membership = await BrandMemberService.acceptInvitation(token, (req as any).user.id, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Invitation accepted successfully", membership);
+        } catch (error: any) {
+            console.error('Accept brand invitation error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Accepting invitation failed");
+        }
+    };
+}
+
+export default BrandMemberController;
@@ -0,0 +1,86 @@
+import { Request, Response } from "express";
+import Validator from "../../helpers/Validator.js";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import AuthService from "../../services/Auth/authService.js";
+import MfaService from "../../services/Mfa/mfaService.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
+
+class MfaController {
+    static async setup(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const result = await MfaService.startEnrollment(userId);
+            return ResponseHandler.sendResponse(res, 200, true, "Scan the QR code and confirm with a code", result);
+        } catch (error: any) {
+            console.error('MFA setup error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Two-factor setup failed");
+        }
+    };
+    static async confirm(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { code } = req.body ?? {};
+            if (!code) {
+                return ResponseHandler.sendResponse(res, 400, false, "Code is required", null);
+            }
+            const recoveryCodes = await MfaService.confirmEnrollment(userId, String(code), RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Two-factor authentication enabled", { recoveryCodes });
+        } catch (error: any) {
+            console.error('MFA confirm error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Two-factor confirmation failed");
+        }
+    };
+    static async disable(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { code } = req.body ?? {};
+            if (!code) {
+                return ResponseHandler.sendResponse(res, 400, false, "Code is required", null);
+            }
+            await MfaService.disable(userId, String(code), RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Two-factor authentication disabled", null);
+        } catch (error: any) {
+            console.error('MFA disable error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Disabling two-factor authentication failed");
+        }
+    };
+    static async enroll(req: Request, res: Response) {
+        try {
+            const { mfaToken } = req.body ?? {};
+            if (!mfaToken) {
+                return ResponseHandler.sendResponse(res, 400, false, "MFA token is required", null);
+            }
+            const result = await AuthService.startRequiredMfaEnrollment(String(mfaToken));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, {
+                secret: result.secret,
+                otpauthUri: result.otpauthUri
+            });
+        } catch (error: any) {
+            console.error('MFA enroll error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Two-factor setup failed");
+        }
+    };
+    static async verify(req: Request, res: Response) {
+        try {
+            const body = req.body ?? {};
+            const requiredFields = ["mfaToken", "code"];
+            const { isValid, missingFields } = Validator.validate(requiredFields, body);
+            if (!isValid) {
+                return ResponseHandler.sendResponse(res, 400, false, "Please fill in all the required fields.", missingFields);
+            }
+            const result = await AuthService.completeMfaLogin(String(body.mfaToken), String(body.code), RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, result.message, {
+                refreshToken: result.refreshToken,
+                accessToken: result.accessToken,
+                userId: result.userId,
+                recoveryCodes: result.recoveryCodes,
+                success: result.success
+            });
+        } catch (error: any) {
+            console.error('MFA verify error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Two-factor verification failed");
+        }
+    };
+}
+
+export default MfaController;
@@ -0,0 +1,67 @@
+import { Request, Response } from "express";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
+import ProductService from "../../services/Product/productService.js";
+
+class ProductController {
+    static async list(req: Request, res: Response) {
+        try {
+            const products = await ProductService.getBrandProducts(String(req.params.brandId));
+            return ResponseHandler.sendResponse(res, 200, true, "Products fetched successfully", products);
+        } catch (error: any) {
+            console.error('List products error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching products failed");
+        }
+    };
+    static async get(req: Request, res: Response) {
+        try {
+            const product = await ProductService.getBrandProduct(String(req.params.brandId), String(req.params.productId));
+            return ResponseHandler.sendResponse(res, 200, true, "Product fetched successfully", product);
+        } catch (error: any) {
+            console.error('Get product error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching product failed");
+        }
+    };
+    static async create(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const product = await ProductService.createProduct(String(req.params.brandId), { id: user.id, role: user.role }, req.body ?? {}, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 201, true, "Product created successfully", product);
+        } catch (error: any) {
+            console.error('Create product error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Creating product failed");
+        }
+    };
+    static async update(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const product = await ProductService.updateProduct(String(req.params.brandId), String(req.params.productId), { id: user.id, role: user.role }, req.body ?? {}, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Product updated successfully", product);
+        } catch (error: any) {
+            console.error('Update product error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Updating product failed");
+        }
+    };
+    static async uploadImage(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            const product = await ProductService.updateProductImage(String(req.params.brandId), String(req.params.productId), { id: user.id, role: user.role }, req.file!, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Product image uploaded successfully", product);
+        } catch (error: any) {
+            console.error('Upload product image error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Uploading product image failed");
+        }
+    };
+    static async delete(req: Request, res: Response) {
+        try {
+            const user = (req as any).user;
+            await ProductService.deleteProduct(String(req.params.brandId), String(req.params.productId), { id: user.id, role: user.role }, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Product deleted successfully", null);
+        } catch (error: any) {
+            console.error('Delete product error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Deleting product failed");
+        }
+    };
+}
+
+export default ProductController;
@@ -0,0 +1,19 @@
+import { Request, Response } from "express";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import ReferenceService from "../../services/Reference/referenceService.js";
+
+class ReferenceController {
+    static async getStates(req: Request, res: Response) {
+        try {
+            const states = ReferenceService.getUsStates();
+            // The catalogue only changes with a deploy
+            res.set("Cache-Control", "public, max-age=86400");
+            return ResponseHandler.sendResponse(res, 200, true, "States fetched successfully", states);
+        } catch (error: any) {
+            console.error('Get states error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching states failed");
+        }
+    };
+}
+
+export default ReferenceController;
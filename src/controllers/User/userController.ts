@@ -0,0 +1,100 @@
+import { Request, Response } from "express";
+import ResponseHandler from "../../helpers/ResponseHandler.js";
+import UserService from "../../services/User/userService.js";
+import BillingVaultService from "../../services/Billing/billingVaultService.js";
+import AccountDeletionService from "../../services/AccountDeletion/accountDeletionService.js";
+import RequestHelper from "../../helpers/RequestHelper.js";
+
+class UserController {
+    static async getMe(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const user = await UserService.getUserById(userId);
+            if (!user) {
+                return ResponseHandler.sendResponse(res, 404, false, "User not found", null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, "Profile fetched successfully", UserService.toPublicUser(user));
+        } catch (error: any) {
+            console.error('Get profile error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching profile failed");
+        }
+    };
+    static async updateMe(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const body = req.body ?? {};
+            if (typeof body !== "object" || Array.isArray(body)) {
+                return ResponseHandler.sendResponse(res, 400, false, "Invalid request body", null);
+            }
+            const user = await UserService.updateProfile(userId, body);
+            return ResponseHandler.sendResponse(res, 200, true, "Profile updated successfully", UserService.toPublicUser(user));
+        } catch (error: any) {
+            console.error('Update profile error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Updating profile failed");
+        }
+    };
+    static async getBilling(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const card = await BillingVaultService.getMaskedCard(userId);
+            if (!card) {
+                return ResponseHandler.sendResponse(res, 404, false, "No card on file", null);
+            }
+            return ResponseHandler.sendResponse(res, 200, true, "Card fetched successfully", card);
+        } catch (error: any) {
+            console.error('Get billing error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Fetching card failed");
+        }
+    };
+    static async replaceBilling(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { billingdata } = req.body ?? {};
+            if (!billingdata || typeof billingdata !== "string") {
+                return ResponseHandler.sendResponse(res, 400, false, "Billing data is required", null);
+            }
+            const card = await BillingVaultService.replaceCard(userId, billingdata, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Card replaced successfully", card);
+        } catch (error: any) {
+            console.error('Replace billing error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Replacing card failed");
+        }
+    };
+    static async exportMe(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const archive = await UserService.exportUserData(userId);
+            res.set("Content-Disposition", `attachment; filename="blacklist-export-${userId}.json"`);
+            return ResponseHandler.sendResponse(res, 200, true, "Data exported successfully", archive);
+        } catch (error: any) {
+            console.error('Export data error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Exporting data failed");
+        }
+    };
+    static async deleteMe(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            const { password, code } = req.body ?? {};
+            if (!password) {
+                return ResponseHandler.sendResponse(res, 400, false, "Password is required", null);
+            }
+            const result = await AccountDeletionService.requestDeletion(userId, String(password), code ? String(code) : undefined, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 202, true, "Account deletion scheduled", result);
+        } catch (error: any) {
+            console.error('Delete account error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Scheduling account deletion failed");
+        }
+    };
+    static async cancelDeletion(req: Request, res: Response) {
+        try {
+            const userId = (req as any).user.id;
+            await AccountDeletionService.cancelDeletion(userId, RequestHelper.getClientContext(req));
+            return ResponseHandler.sendResponse(res, 200, true, "Account deletion cancelled", null);
+        } catch (error: any) {
+            console.error('Cancel account deletion error:', error?.message ?? "Unknown error");
+            return ResponseHandler.sendErrorResponse(res, error, "Cancelling account deletion failed");
+        }
+    };
+}
+
+export default UserController;
@@ -0,0 +1,13 @@
+class AppError extends Error {
+    statusCode: number;
+    code: string;
+
+    constructor(message: string, statusCode: number = 400, code: string = "BAD_REQUEST") {
+        super(message);
+        this.name = "AppError";
+        this.statusCode = statusCode;
+        this.code = code;
+    }
+}
+
+export default AppError;
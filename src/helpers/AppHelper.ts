@@ -1,6 +1,10 @@
 import DatabaseConfig from "../config/db.js";
 import CacheService from "../services/Cache/cacheService.js";
 import KafkaService from "../services/Kafka/kafkaService.js";
+import DBService from "../services/DB/dbService.js";
+import AccountDeletionService from "../services/AccountDeletion/accountDeletionService.js";
+import BrandService from "../services/Brand/brandService.js";
+import BillingVaultService from "../services/Billing/billingVaultService.js";
 
 class AppHelper {
     static async initializeServices() {
@@ -8,6 +12,18 @@ class AppHelper {
             // Initialize database connection
             await DatabaseConfig.connectToDatabase();
 
+            // Unique indexes back lookups such as the normalized email index
+            await DBService.ensureIndexes();
+            console.log('✅ Database indexes ensured');
+
+            // Brands saved before the state catalogue get canonical state codes
+            const normalizedBrands = await BrandService.normalizeStoredDistributionStates();
+            console.log(`✅ Distribution states normalized (${normalizedBrands} brands updated)`);
+
+            // Raw cards saved before the billing vault are moved into it and removed from users
+            const migratedCards = await BillingVaultService.migrateStoredLegacyCards();
+            console.log(`✅ Legacy cards moved to the billing vault (${migratedCards} users updated)`);
+
             // Initialize Kafka topics and workers
             await KafkaService.ensureTopics();
             console.log('✅ Kafka topics ensured');
@@ -16,6 +32,9 @@ class AppHelper {
             await KafkaService.initializeWorkers();
             console.log('✅ Kafka workers initialized');
 
+            // Erase accounts whose deletion grace period has passed
+            AccountDeletionService.startScheduler();
+
             console.log('🚀 Application started successfully - Production Ready!');
         } catch (error) {
             console.error('❌ Failed to start application:', error);
@@ -33,6 +52,8 @@ class AppHelper {
         }, 40000);
 
         try {
+            AccountDeletionService.stopScheduler();
+
             console.log('📨 Closing Kafka connections...');
             await KafkaService.closeConnections();
             console.log('✅ Kafka connections closed');
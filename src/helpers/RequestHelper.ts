@@ -0,0 +1,14 @@
+import { Request } from "express";
+import { ClientContext } from "../models/Session.js";
+
+class RequestHelper {
+    // IP and user agent of the caller, recorded on sessions and audit events
+    static getClientContext(req: Request): ClientContext {
+        return {
+            ip: req.ip,
+            userAgent: req.get("user-agent")
+        };
+    }
+}
+
+export default RequestHelper;
@@ -1,4 +1,5 @@
 import { Response } from "express";
+import AppError from "./AppError.js";
 class ResponseHandler {
     static sendResponse(response: Response, statusCode: number, success: boolean, message: string, data: any) {
         response.status(statusCode).send({
@@ -9,6 +10,14 @@ class ResponseHandler {
         });
         return;
     }
+
+    // Send an error response, keeping the status and code of AppError instances
+    static sendErrorResponse(response: Response, error: any, fallbackMessage: string) {
+        if (error instanceof AppError) {
+            return this.sendResponse(response, error.statusCode, false, error.message, { code: error.code });
+        }
+        return this.sendResponse(response, 400, false, error?.message || fallbackMessage, null);
+    }
 }
 
 export default ResponseHandler;
\ No newline at end of file
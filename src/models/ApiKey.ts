@@ -0,0 +1,20 @@
+import { Permission } from "./Role.js";
+
+export interface RequestApiKey {
+    name: string;
+    scopes: Permission[];
+    expiresindays?: number;
+}
+
+export interface ApiKey {
+    keyId: string;
+    userId: string;
+    name: string;
+    scopes: Permission[];
+    keyHash: string;
+    createdAt: string;
+    expiresAt: string;
+    lastUsedAt?: string;
+    revoked: boolean;
+    revokedAt?: string;
+}
@@ -0,0 +1,27 @@
+export type AuditOutcome = "success" | "failure";
+
+export interface AuditEventInput {
+    actorId?: string;
+    targetId?: string;
+    targetType?: string;
+    ip?: string;
+    userAgent?: string;
+    outcome: AuditOutcome;
+    reason?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface AuditEvent extends AuditEventInput {
+    eventId: string;
+    action: string;
+    createdAt: string;
+}
+
+export interface AuditEventFilters {
+    action?: string;
+    actorId?: string;
+    targetId?: string;
+    outcome?: AuditOutcome;
+    from?: string;
+    to?: string;
+}
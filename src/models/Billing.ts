@@ -0,0 +1,32 @@
+export type CardBrand = "visa" | "mastercard" | "amex" | "discover" | "unknown";
+
+export interface BillingCardInput {
+    accountname: string;
+    accountnumber: string;
+    expirydate: string;
+    cvv: string;
+}
+
+// Card details kept in the vault; the CVV is never stored
+export interface BillingVaultCard {
+    accountname: string;
+    accountnumber: string;
+    expirymonth: number;
+    expiryyear: number;
+}
+
+export interface BillingVaultRecord {
+    token: string;
+    userId: string;
+    brand: CardBrand;
+    last4: string;
+    card: string;
+    createdAt: string;
+}
+
+export interface MaskedCard {
+    brand: CardBrand;
+    last4: string;
+    accountname: string;
+    expirydate: string;
+}
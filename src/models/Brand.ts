@@ -4,26 +4,69 @@ export interface RequestBrand {
     name: string;
     yearfounded?: string;
     description?: string;
-    logo: string;
+    logo?: string;
     distributionstates: string[]
 }
 
+// draft → submitted → approved/rejected, approved ↔ suspended, rejected brands can be resubmitted
+export type BrandStatus = "draft" | "submitted" | "approved" | "rejected" | "suspended";
+
+export interface BrandReview {
+    from: BrandStatus;
+    to: BrandStatus;
+    note?: string;
+    actorId: string;
+    at: string;
+}
+
 export interface Brand {
     brandid: string;
+    ownerid: string;
     name: string;
     yearfounded?: string;
     description?: string;
     logourl: string;
     distributionstates: string[]
     products: Product[]
+    status: BrandStatus;
+    // Latest reviewer note shown to the owner, the full trail is in reviewhistory
+    reviewnote?: string;
+    reviewhistory?: BrandReview[];
+    statusUpdatedAt?: string;
+    createdAt?: string;
+    updatedAt?: string;
 }
 
 export interface InsertedBrand {
     brandid: string;
+    ownerid: string;
     name: string;
     yearfounded?: string;
     description?: string;
     logourl: string;
     distributionstates: string[]
+    // Stored values the state catalogue did not recognize, kept for review
+    unrecognizeddistributionstates?: string[];
     productsdocid: string
-}
\ No newline at end of file
+    status: BrandStatus;
+    statusUpdatedAt: string;
+    createdAt: string;
+    updatedAt: string;
+}
+export type BrandSearchSort = "relevance" | "name" | "-name" | "yearfounded" | "-yearfounded" | "createdAt" | "-createdAt";
+
+export interface BrandSearchQuery {
+    q?: string;
+    states?: string[];
+    yearfrom?: string;
+    yearto?: string;
+    sort: BrandSearchSort;
+    limit: number;
+    cursor?: string;
+}
+
+export interface BrandSearchResult {
+    brands: Brand[];
+    nextCursor: string | null;
+    hasMore: boolean;
+}
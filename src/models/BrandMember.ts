@@ -0,0 +1,37 @@
+export type BrandMemberRole = "owner" | "editor" | "viewer";
+
+// Roles an owner can hand out; ownership only changes through a transfer
+export type BrandInviteRole = "editor" | "viewer";
+
+export interface BrandMember {
+    brandId: string;
+    userId: string;
+    role: BrandMemberRole;
+    addedAt: string;
+    addedBy?: string;
+}
+
+export type BrandInvitationStatus = "pending" | "accepted" | "revoked";
+
+export interface BrandInvitation {
+    invitationId: string;
+    brandId: string;
+    email: string;
+    normalizedEmail: string;
+    role: BrandInviteRole;
+    invitedBy: string;
+    tokenHash: string;
+    status: BrandInvitationStatus;
+    createdAt: string;
+    expiresAt: string;
+    acceptedBy?: string;
+    acceptedAt?: string;
+}
+
+export interface BrandOwnershipTransfer {
+    brandId: string;
+    fromUserId: string;
+    toUserId: string;
+    createdAt: string;
+    expiresAt: string;
+}
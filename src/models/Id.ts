@@ -0,0 +1 @@
+export type IdPrefix = "USR" | "BRD" | "PRD" | "REF";
@@ -0,0 +1,14 @@
+export interface IdentityRecord {
+    userId: string;
+    ssnHash: string;
+    ssn: string;
+    last4: string;
+    createdAt: string;
+    verifiedAt: string;
+}
+
+export interface MaskedIdentity {
+    userId: string;
+    maskedSsn: string;
+    identityVerifiedAt: string;
+}
@@ -9,10 +9,14 @@ export interface Product {
     name: string;
     description: string;
     categoryid: string;
+    brandid?: string;
+    imageurl?: string;
+    createdAt?: string;
+    updatedAt?: string;
 }
 
 export interface InsertedProductDoc {
     productdocid: string;
     brandid: string;
     productList: Product[]
-}
\ No newline at end of file
+}
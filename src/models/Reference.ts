@@ -0,0 +1,8 @@
+export type UsStateType = "state" | "district" | "territory";
+
+export interface UsState {
+    // Two-letter USPS code, the value stored on brands
+    code: string;
+    name: string;
+    type: UsStateType;
+}
@@ -0,0 +1,15 @@
+export type Role = "user" | "support" | "moderator" | "admin";
+
+export type Permission =
+    | "user:read"
+    | "user:write"
+    | "user:delete"
+    | "user:role"
+    | "brand:write"
+    | "brand:moderate"
+    | "product:write"
+    | "product:moderate"
+    | "referral:read"
+    | "referral:admin"
+    | "audit:read"
+    | "identity:read";
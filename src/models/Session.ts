@@ -0,0 +1,17 @@
+export interface Session {
+    sessionId: string;
+    userId: string;
+    currentTokenId: string;
+    createdAt: string;
+    lastRotatedAt: string;
+    revoked: boolean;
+    revokedAt?: string;
+    revokedReason?: string;
+    ip?: string;
+    userAgent?: string;
+}
+
+export interface ClientContext {
+    ip?: string;
+    userAgent?: string;
+}
@@ -0,0 +1,15 @@
+export type ImageType = "image/jpeg" | "image/png" | "image/webp";
+
+export interface UploadedImage {
+    contentType: ImageType;
+    extension: string;
+    data: Buffer;
+}
+
+// Backend that stores uploaded files and serves them from a public URL
+export interface StorageAdapter {
+    save(key: string, data: Buffer, contentType: string): Promise<string>;
+    delete(key: string): Promise<void>;
+    // Storage key of a URL this adapter handed out, null for foreign URLs
+    keyFromUrl(url: string): string | null;
+}
@@ -1,5 +1,7 @@
 import { Brand } from "./Brand";
 import { Refferals } from "./Refferals";
+import { Role } from "./Role";
+import { CardBrand } from "./Billing";
 
 export interface RequestUser {
     email: string;
@@ -15,12 +17,23 @@ export interface RequestUser {
 export interface User {
     userId: string;
     email: string;
+    normalizedEmail?: string;
     verified: boolean;
-    role: "user" | "admin";
+    disabled?: boolean;
+    suspended?: boolean;
+    suspendedAt?: string | null;
+    suspendedReason?: string | null;
+    deletionRequestedAt?: string | null;
+    deletionScheduledFor?: string | null;
+    tokenVersion?: number;
+    mfa?: UserMfa;
+    identityVerifiedAt?: string;
+    role: Role;
     password: string;
     firstname: string;
     lastname: string;
     createdAt: string;
+    brandid?: string;
     brand: Brand;
     refferals: Refferals;
     billingdata: UserBillingData;
@@ -29,8 +42,12 @@ export interface User {
 export interface InsertedUser {
     userId: string;
     email: string;
+    normalizedEmail: string;
     verified: boolean;
-    role: "user" | "admin";
+    disabled?: boolean;
+    tokenVersion?: number;
+    identityVerifiedAt?: string;
+    role: Role;
     password: string;
     firstname: string;
     lastname: string;
@@ -40,12 +57,50 @@ export interface InsertedUser {
     billingdata: UserBillingData;
 }
 
-export interface UserBillingData {
-    accountname: string;
-    accountnumber: string;
-    expirydate: string;
-    cvv: string;
+// User as returned to its owner, with credentials and payment details stripped
+export interface PublicUser {
+    userId: string;
+    email: string;
+    verified: boolean;
+    role: Role;
+    firstname: string;
+    lastname: string;
+    createdAt: string;
+    brandid?: string;
+    mfaEnabled: boolean;
+    identityVerifiedAt?: string;
+    deletionScheduledFor?: string | null;
+    billingdata?: {
+        brand: CardBrand;
+        last4: string;
+    };
 }
 
+// User as shown to administrators, including account state
+export interface AdminUserView extends PublicUser {
+    disabled: boolean;
+    suspended: boolean;
+    suspendedAt?: string | null;
+    suspendedReason?: string | null;
+}
+
+export interface UpdateUserProfile {
+    firstname?: string;
+    lastname?: string;
+}
 
+// Only a reference to the billing vault is kept on the user
+export interface UserBillingData {
+    token: string;
+    brand: CardBrand;
+    last4: string;
+}
 
+export interface UserMfa {
+    enabled: boolean;
+    secret?: string;
+    pendingSecret?: string;
+    recoveryCodes: string[];
+    enrolledAt?: string;
+    lastUsedStep?: number;
+}
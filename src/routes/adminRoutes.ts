@@ -0,0 +1,24 @@
+import express from "express";
+import AdminController from "../controllers/Admin/adminController.js";
+import AuthMiddleware from "../Middleware/auth.middleware.js";
+import ValidateIdMiddleware from "../Middleware/validateId.middleware.js";
+const AdminRouter = express.Router();
+
+AdminRouter.use(AuthMiddleware.verifyAccessTokenOrApiKey);
+AdminRouter.param("userId", ValidateIdMiddleware.param("USR"));
+AdminRouter.param("brandId", ValidateIdMiddleware.param("BRD"));
+
+AdminRouter.get("/roles", AuthMiddleware.requirePermission("user:role"), AdminController.getRoles);
+AdminRouter.get("/users", AuthMiddleware.requirePermission("user:read"), AdminController.listUsers);
+AdminRouter.get("/users/:userId", AuthMiddleware.requirePermission("user:read"), AdminController.getUser);
+AdminRouter.get("/users/:userId/identity", AuthMiddleware.requireUserToken, AuthMiddleware.requirePermission("identity:read"), AdminController.getUserIdentity);
+AdminRouter.patch("/users/:userId/suspend", AuthMiddleware.requirePermission("user:write"), AdminController.suspendUser);
+AdminRouter.patch("/users/:userId/unsuspend", AuthMiddleware.requirePermission("user:write"), AdminController.unsuspendUser);
+AdminRouter.delete("/users/:userId", AuthMiddleware.requirePermission("user:delete"), AdminController.deleteUser);
+AdminRouter.patch("/users/:userId/role", AuthMiddleware.requirePermission("user:role"), AdminController.changeUserRole);
+AdminRouter.get("/brands", AuthMiddleware.requirePermission("brand:moderate"), AdminController.listBrandsForReview);
+AdminRouter.patch("/brands/:brandId/status", AuthMiddleware.requirePermission("brand:moderate"), AdminController.reviewBrand);
+AdminRouter.get("/audit-events", AuthMiddleware.requirePermission("audit:read"), AdminController.getAuditEvents);
+
+
+export default AdminRouter;
@@ -0,0 +1,13 @@
+import express from "express";
+import ApiKeyController from "../controllers/ApiKey/apiKeyController.js";
+import AuthMiddleware from "../Middleware/auth.middleware.js";
+const ApiKeyRouter = express.Router();
+
+ApiKeyRouter.use(AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken);
+
+ApiKeyRouter.post("/", ApiKeyController.create);
+ApiKeyRouter.get("/", ApiKeyController.list);
+ApiKeyRouter.delete("/:keyId", ApiKeyController.revoke);
+
+
+export default ApiKeyRouter;
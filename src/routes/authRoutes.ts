@@ -1,14 +1,33 @@
 import express from "express";
 import AuthController from "../controllers/Auth/authController.js";
+import MfaController from "../controllers/Mfa/mfaController.js";
 import AuthMiddleware from "../Middleware/auth.middleware.js";
+import RateLimitMiddleware from "../Middleware/rateLimit.middleware.js";
 const AuthRouter = express.Router();
 
-AuthRouter.post("/register", AuthController.register);
-AuthRouter.post("/login", AuthController.login);
-AuthRouter.get("/verify-email", AuthController.verifyEmail);
-AuthRouter.get("/forgot-password", AuthMiddleware.verifyAccessToken, AuthController.forgotPassword);
-AuthRouter.post("/reset-password", AuthController.resetPassword);
-AuthRouter.post("/refresh-token", AuthController.refreshToken);
+const loginLimiter = RateLimitMiddleware.limit({ scope: "login", windowSeconds: 900, maxAttempts: 10, identifier: req => req.body?.email });
+const emailLimiter = (scope: string) => RateLimitMiddleware.limit({ scope, windowSeconds: 3600, maxAttempts: 5, identifier: req => req.body?.email });
+const tokenLimiter = (scope: string) => RateLimitMiddleware.limit({ scope, windowSeconds: 900, maxAttempts: 20, identifier: req => req.query?.token ? String(req.query.token) : req.body?.token });
+const mfaLimiter = RateLimitMiddleware.limit({ scope: "mfa", windowSeconds: 900, maxAttempts: 10, identifier: req => req.body?.mfaToken });
+const refreshLimiter = RateLimitMiddleware.limit({ scope: "refresh", windowSeconds: 900, maxAttempts: 30, identifier: req => req.body?.refreshToken });
+
+AuthRouter.post("/register", emailLimiter("register"), AuthController.register);
+AuthRouter.post("/login", loginLimiter, AuthController.login);
+AuthRouter.get("/verify-email", tokenLimiter("verify_email"), AuthController.verifyEmail);
+AuthRouter.post("/resend-verification", emailLimiter("resend_verification"), AuthController.resendVerification);
+AuthRouter.post("/change-email", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, AuthController.changeEmail);
+AuthRouter.get("/confirm-email-change", tokenLimiter("confirm_email_change"), AuthController.confirmEmailChange);
+AuthRouter.post("/forgot-password", emailLimiter("forgot_password"), AuthController.forgotPassword);
+AuthRouter.post("/reset-password", tokenLimiter("reset_password"), AuthController.resetPassword);
+AuthRouter.post("/refresh-token", refreshLimiter, AuthController.refreshToken);
+AuthRouter.post("/logout", AuthController.logout);
+AuthRouter.post("/logout-all", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, AuthController.logoutAll);
+
+AuthRouter.post("/mfa/setup", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, MfaController.setup);
+AuthRouter.post("/mfa/confirm", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, MfaController.confirm);
+AuthRouter.post("/mfa/disable", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, MfaController.disable);
+AuthRouter.post("/mfa/enroll", mfaLimiter, MfaController.enroll);
+AuthRouter.post("/mfa/verify", mfaLimiter, MfaController.verify);
 
 
 export default AuthRouter;
\ No newline at end of file
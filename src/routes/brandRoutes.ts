@@ -0,0 +1,48 @@
+import express from "express";
+import BrandController from "../controllers/Brand/brandController.js";
+import BrandMemberController from "../controllers/BrandMember/brandMemberController.js";
+import ProductController from "../controllers/Product/productController.js";
+import AuthMiddleware from "../Middleware/auth.middleware.js";
+import ValidateIdMiddleware from "../Middleware/validateId.middleware.js";
+import UploadMiddleware from "../Middleware/upload.middleware.js";
+import RateLimitMiddleware from "../Middleware/rateLimit.middleware.js";
+const BrandRouter = express.Router();
+const searchLimiter = RateLimitMiddleware.limit({ scope: "brand_search", windowSeconds: 60, maxAttempts: 60 });
+
+BrandRouter.param("brandId", ValidateIdMiddleware.param("BRD"));
+BrandRouter.param("userId", ValidateIdMiddleware.param("USR"));
+BrandRouter.param("productId", ValidateIdMiddleware.param("PRD"));
+
+BrandRouter.get("/", BrandController.list);
+BrandRouter.get("/search", searchLimiter, BrandController.search);
+BrandRouter.get("/mine", AuthMiddleware.verifyAccessToken, BrandController.getMine);
+BrandRouter.get("/memberships", AuthMiddleware.verifyAccessToken, BrandMemberController.listMemberships);
+BrandRouter.post("/invitations/accept", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, BrandMemberController.acceptInvitation);
+BrandRouter.get("/:brandId", BrandController.get);
+BrandRouter.post("/", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("brand:write"), BrandController.create);
+BrandRouter.patch("/:brandId", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("brand:write"), BrandController.update);
+BrandRouter.post("/:brandId/submit", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("brand:write"), BrandController.submit);
+BrandRouter.post("/:brandId/logo", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("brand:write"), UploadMiddleware.image("logo"), BrandController.uploadLogo);
+BrandRouter.delete("/:brandId", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("brand:write"), BrandController.delete);
+
+// Products of the brand
+BrandRouter.get("/:brandId/products", ProductController.list);
+BrandRouter.get("/:brandId/products/:productId", ProductController.get);
+BrandRouter.post("/:brandId/products", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("product:write"), ProductController.create);
+BrandRouter.patch("/:brandId/products/:productId", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("product:write"), ProductController.update);
+BrandRouter.post("/:brandId/products/:productId/image", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("product:write"), UploadMiddleware.image("image"), ProductController.uploadImage);
+BrandRouter.delete("/:brandId/products/:productId", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("product:write"), ProductController.delete);
+
+// Team members, invitations and ownership transfer
+BrandRouter.get("/:brandId/members", AuthMiddleware.verifyAccessToken, BrandMemberController.listMembers);
+BrandRouter.patch("/:brandId/members/:userId", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, AuthMiddleware.requirePermission("brand:write"), BrandMemberController.updateMemberRole);
+BrandRouter.delete("/:brandId/members/:userId", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, AuthMiddleware.requirePermission("brand:write"), BrandMemberController.removeMember);
+BrandRouter.get("/:brandId/invitations", AuthMiddleware.verifyAccessTokenOrApiKey, AuthMiddleware.requirePermission("brand:write"), BrandMemberController.listInvitations);
+BrandRouter.post("/:brandId/invitations", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, AuthMiddleware.requirePermission("brand:write"), BrandMemberController.invite);
+BrandRouter.delete("/:brandId/invitations/:invitationId", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, AuthMiddleware.requirePermission("brand:write"), BrandMemberController.revokeInvitation);
+BrandRouter.post("/:brandId/transfer", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, BrandController.requestTransfer);
+BrandRouter.post("/:brandId/transfer/accept", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, BrandController.acceptTransfer);
+BrandRouter.delete("/:brandId/transfer", AuthMiddleware.verifyAccessToken, AuthMiddleware.requireUserToken, BrandController.cancelTransfer);
+
+
+export default BrandRouter;
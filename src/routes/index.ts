@@ -1,8 +1,18 @@
 import AuthRouter from "./authRoutes.js";
+import AdminRouter from "./adminRoutes.js";
+import ApiKeyRouter from "./apiKeyRoutes.js";
+import UserRouter from "./userRoutes.js";
+import BrandRouter from "./brandRoutes.js";
+import ReferenceRouter from "./referenceRoutes.js";
 import express from "express";
 const mainRouter = express.Router();
 
 mainRouter.use("/auth", AuthRouter);
+mainRouter.use("/admin", AdminRouter);
+mainRouter.use("/api-keys", ApiKeyRouter);
+mainRouter.use("/users", UserRouter);
+mainRouter.use("/brands", BrandRouter);
+mainRouter.use("/reference", ReferenceRouter);
 
 
 export default mainRouter;
\ No newline at end of file
@@ -0,0 +1,8 @@
+import express from "express";
+import ReferenceController from "../controllers/Reference/referenceController.js";
+const ReferenceRouter = express.Router();
+
+ReferenceRouter.get("/states", ReferenceController.getStates);
+
+
+export default ReferenceRouter;
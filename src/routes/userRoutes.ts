@@ -0,0 +1,21 @@
+import express from "express";
+import UserController from "../controllers/User/userController.js";
+import AuthMiddleware from "../Middleware/auth.middleware.js";
+import RateLimitMiddleware from "../Middleware/rateLimit.middleware.js";
+const UserRouter = express.Router();
+
+const exportLimiter = RateLimitMiddleware.limit({ scope: "data_export", windowSeconds: 3600, maxAttempts: 5, identifier: req => (req as any).user?.id });
+const deletionLimiter = RateLimitMiddleware.limit({ scope: "account_deletion", windowSeconds: 900, maxAttempts: 5, identifier: req => (req as any).user?.id });
+
+UserRouter.use(AuthMiddleware.verifyAccessToken);
+
+UserRouter.get("/me", UserController.getMe);
+UserRouter.patch("/me", AuthMiddleware.requireUserToken, UserController.updateMe);
+UserRouter.get("/me/billing", AuthMiddleware.requireUserToken, UserController.getBilling);
+UserRouter.put("/me/billing", AuthMiddleware.requireUserToken, UserController.replaceBilling);
+UserRouter.get("/me/export", AuthMiddleware.requireUserToken, exportLimiter, UserController.exportMe);
+UserRouter.delete("/me", AuthMiddleware.requireUserToken, deletionLimiter, UserController.deleteMe);
+UserRouter.post("/me/deletion/cancel", AuthMiddleware.requireUserToken, UserController.cancelDeletion);
+
+
+export default UserRouter;
@@ -0,0 +1,155 @@
+import CacheService from "../Cache/cacheService.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import DBService from "../DB/dbService.js";
+import UserService from "../User/userService.js";
+import PasswordService from "../Password/passwordService.js";
+import MfaService from "../Mfa/mfaService.js";
+import EmailService from "../Email/emailService.js";
+import AuditService from "../Audit/auditService.js";
+import AppError from "../../helpers/AppError.js";
+import { User } from "../../models/User.js";
+import { ClientContext } from "../../models/Session.js";
+
+/**
+ * Account Deletion
+ * - Users request deletion with their password (and two-factor code when enabled)
+ * - The account is erased once ACCOUNT_DELETION_GRACE_DAYS have passed, unless cancelled first
+ * - A periodic sweep erases due accounts; a Redis throttle keeps instances from sweeping at once
+ */
+class AccountDeletionService {
+    private static readonly SWEEP_BATCH_SIZE = 100;
+    private static sweepTimer: NodeJS.Timeout | null = null;
+
+    private static async saveUser(userId: string, updatedUser: User): Promise<void> {
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Account deletion event error:", error);
+        });
+    }
+
+    static async requestDeletion(userId: string, password: string, code: string | undefined, context: ClientContext = {}): Promise<{ deletionScheduledFor: string }> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (user.deletionScheduledFor) {
+            throw new AppError("Account deletion is already scheduled", 409, "DELETION_ALREADY_SCHEDULED");
+        }
+
+        const { valid } = await PasswordService.verify(password, user.password);
+        if (!valid) {
+            AuditService.record("user.deletion_request", { actorId: userId, targetId: userId, targetType: "user", ...context, outcome: "failure", reason: "INVALID_PASSWORD" });
+            throw new AppError("Password is incorrect", 401, "INVALID_CREDENTIALS");
+        }
+        if (user.mfa?.enabled) {
+            const isValidCode = code ? await MfaService.verifyUserCode(user, code) : false;
+            if (!isValidCode) {
+                AuditService.record("user.deletion_request", { actorId: userId, targetId: userId, targetType: "user", ...context, outcome: "failure", reason: "INVALID_MFA_CODE" });
+                throw new AppError("Invalid two-factor code", 401, "INVALID_MFA_CODE");
+            }
+        }
+
+        const graceDays = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30');
+        const now = new Date();
+        const deletionScheduledFor = new Date(now.getTime() + graceDays * 24 * 60 * 60 * 1000).toISOString();
+
+        // Re-read the user, verifying a two-factor code may have updated it
+        const freshUser = (await CacheService.getUser(userId)) ?? user;
+        await this.saveUser(userId, { ...freshUser, deletionRequestedAt: now.toISOString(), deletionScheduledFor });
+
+        EmailService.sendAccountDeletionScheduledEmail(user.email, deletionScheduledFor).catch(error => {
+            console.error("Account deletion email error:", error);
+        });
+        AuditService.record("user.deletion_request", {
+            actorId: userId,
+            targetId: userId,
+            targetType: "user",
+            ...context,
+            outcome: "success",
+            metadata: { deletionScheduledFor }
+        });
+
+        return { deletionScheduledFor };
+    }
+
+    static async cancelDeletion(userId: string, context: ClientContext = {}): Promise<void> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (!user.deletionScheduledFor) {
+            throw new AppError("No account deletion is scheduled", 400, "DELETION_NOT_SCHEDULED");
+        }
+
+        await this.saveUser(userId, { ...user, deletionRequestedAt: null, deletionScheduledFor: null });
+        // Written straight to the DB as well, so the sweep stops seeing the account before the update event lands
+        await DBService.updateByField('users', 'userId', userId, { deletionRequestedAt: null, deletionScheduledFor: null });
+        AuditService.record("user.deletion_cancel", { actorId: userId, targetId: userId, targetType: "user", ...context, outcome: "success" });
+    }
+
+    // Erase every account whose grace period is over, paging in due order so skipped accounts don't hold up later ones
+    static async processDueDeletions(): Promise<number> {
+        const now = new Date().toISOString();
+        let lastSeen: { deletionScheduledFor: string; userId: string } | null = null;
+        let deletedCount = 0;
+
+        while (true) {
+            const filter: any = { deletionScheduledFor: { $type: 'string', $lte: now } };
+            if (lastSeen) {
+                filter.$or = [
+                    { deletionScheduledFor: { $gt: lastSeen.deletionScheduledFor } },
+                    { deletionScheduledFor: lastSeen.deletionScheduledFor, userId: { $gt: lastSeen.userId } }
+                ];
+            }
+            const { items: dueUsers } = await DBService.findPaginatedWithFilter('users', filter, 1, this.SWEEP_BATCH_SIZE, { deletionScheduledFor: 1, userId: 1 });
+            if (dueUsers.length === 0) {
+                return deletedCount;
+            }
+
+            for (const dueUser of dueUsers) {
+                // The cache is fresher than the DB, so a cancellation may not have reached Mongo yet
+                const user = await CacheService.getUser(dueUser.userId);
+                if (!user?.deletionScheduledFor || user.deletionScheduledFor > now) {
+                    continue;
+                }
+
+                const result = await UserService.deleteUserById(user.userId, "system");
+                if (result.success) {
+                    deletedCount++;
+                }
+            }
+
+            const lastUser = dueUsers[dueUsers.length - 1];
+            lastSeen = { deletionScheduledFor: lastUser.deletionScheduledFor, userId: lastUser.userId };
+        }
+    }
+
+    static startScheduler(): void {
+        if (this.sweepTimer) {
+            return;
+        }
+
+        const intervalSeconds = Number(process.env.ACCOUNT_DELETION_SWEEP_INTERVAL || '3600');
+        this.sweepTimer = setInterval(async () => {
+            try {
+                const isSweepOwner = await CacheService.acquireThrottle("account_deletion_sweep", "global", Math.max(intervalSeconds - 1, 1));
+                if (!isSweepOwner) {
+                    return;
+                }
+                await this.processDueDeletions();
+            } catch (error) {
+                console.error("Account deletion sweep error:", error);
+            }
+        }, intervalSeconds * 1000);
+        this.sweepTimer.unref();
+    }
+
+    static stopScheduler(): void {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+    }
+}
+
+export default AccountDeletionService;
@@ -0,0 +1,186 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import CacheService from "../Cache/cacheService.js";
+import DBService from "../DB/dbService.js";
+import PermissionService from "../Permission/permissionService.js";
+import AppError from "../../helpers/AppError.js";
+import { ApiKey, RequestApiKey } from "../../models/ApiKey.js";
+import { User } from "../../models/User.js";
+
+/**
+ * Scoped API Keys for server-to-server integrations
+ * - Keys look like `blk_<keyId>_<secret>` and are returned only once, at creation
+ * - Only a SHA-256 hash of the secret is stored; the keyId is used for lookup
+ * - Scopes are limited to permissions the owner's role already has
+ */
+class ApiKeyService {
+    private static readonly KEY_PREFIX = "blk";
+    private static readonly MAX_KEYS_PER_USER = 20;
+    private static readonly DEFAULT_EXPIRY_DAYS = 90;
+    private static readonly MAX_EXPIRY_DAYS = 365;
+    private static readonly LAST_USED_UPDATE_INTERVAL = 60 * 1000; // 1 minute
+
+    private static hashSecret(secret: string): string {
+        return createHash("sha256").update(secret).digest("hex");
+    }
+
+    // Split on the first two underscores only, secrets issued as base64url may contain more
+    private static parseKey(rawKey: string): { keyId: string; secret: string } | null {
+        const prefix = `${this.KEY_PREFIX}_`;
+        if (!rawKey.startsWith(prefix)) {
+            return null;
+        }
+        const separator = rawKey.indexOf("_", prefix.length);
+        const keyId = rawKey.slice(prefix.length, separator);
+        const secret = rawKey.slice(separator + 1);
+        if (separator === -1 || !keyId || !secret) {
+            return null;
+        }
+        return { keyId, secret };
+    }
+
+    // Strip the hash before a key leaves the service
+    private static toPublicKey(apiKey: ApiKey) {
+        const { keyHash, ...publicKey } = apiKey;
+        return publicKey;
+    }
+
+    private static isBrandOwner(user: User): boolean {
+        return !!(user.brandid || user.brand?.brandid);
+    }
+
+    static async createApiKey(userId: string, body: RequestApiKey) {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (user.role !== "admin" && !this.isBrandOwner(user)) {
+            throw new AppError("Only brand owners and admins can create API keys", 403, "FORBIDDEN");
+        }
+
+        const { name, scopes, expiresindays } = body;
+        if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+            throw new AppError("API key name must be between 1 and 100 characters", 400, "INVALID_API_KEY");
+        }
+        if (!Array.isArray(scopes) || scopes.length === 0) {
+            throw new AppError("At least one scope is required", 400, "INVALID_API_KEY");
+        }
+        for (const scope of scopes) {
+            if (!PermissionService.isValidPermission(scope)) {
+                throw new AppError(`Unknown scope: ${scope}`, 400, "INVALID_API_KEY");
+            }
+            if (!PermissionService.hasPermission(user.role, scope)) {
+                throw new AppError(`You cannot grant the scope: ${scope}`, 403, "FORBIDDEN");
+            }
+        }
+
+        const expiryDays = expiresindays === undefined ? this.DEFAULT_EXPIRY_DAYS : Number(expiresindays);
+        if (!Number.isInteger(expiryDays) || expiryDays < 1 || expiryDays > this.MAX_EXPIRY_DAYS) {
+            throw new AppError(`Expiry must be between 1 and ${this.MAX_EXPIRY_DAYS} days`, 400, "INVALID_API_KEY");
+        }
+
+        const activeKeys = await DBService.count('api_keys', { userId, revoked: false });
+        if (activeKeys >= this.MAX_KEYS_PER_USER) {
+            throw new AppError(`You can have at most ${this.MAX_KEYS_PER_USER} active API keys`, 400, "API_KEY_LIMIT_REACHED");
+        }
+
+        const keyId = randomBytes(8).toString("hex");
+        const secret = randomBytes(32).toString("hex");
+        const now = new Date();
+        const apiKey: ApiKey = {
+            keyId,
+            userId,
+            name: name.trim(),
+            scopes: [...new Set(scopes)],
+            keyHash: this.hashSecret(secret),
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + expiryDays * 24 * 60 * 60 * 1000).toISOString(),
+            revoked: false
+        };
+
+        await Promise.all([
+            DBService.insertData('api_keys', { ...apiKey }),
+            CacheService.setApiKey(keyId, apiKey)
+        ]);
+
+        return {
+            key: `${this.KEY_PREFIX}_${keyId}_${secret}`,
+            apiKey: this.toPublicKey(apiKey)
+        };
+    }
+
+    static async listApiKeys(userId: string) {
+        const apiKeys = await DBService.findByFilter('api_keys', { userId }, this.MAX_KEYS_PER_USER * 5);
+        return apiKeys.map(apiKey => this.toPublicKey(apiKey as unknown as ApiKey));
+    }
+
+    // Owners can revoke their own keys, admins can revoke any key
+    static async revokeApiKey(keyId: string, actor: { id: string; role: string }): Promise<void> {
+        const apiKey = await CacheService.getApiKey(keyId);
+        if (!apiKey || (apiKey.userId !== actor.id && actor.role !== "admin")) {
+            throw new AppError("API key not found", 404, "API_KEY_NOT_FOUND");
+        }
+        if (apiKey.revoked) {
+            return;
+        }
+
+        const revocation = { revoked: true, revokedAt: new Date().toISOString() };
+        await Promise.all([
+            DBService.updateByField('api_keys', 'keyId', keyId, revocation),
+            CacheService.setApiKey(keyId, { ...apiKey, ...revocation })
+        ]);
+    }
+
+    static async revokeAllUserApiKeys(userId: string): Promise<void> {
+        const apiKeys = await DBService.findByFilter('api_keys', { userId, revoked: false }, this.MAX_KEYS_PER_USER * 5);
+        const revocation = { revoked: true, revokedAt: new Date().toISOString() };
+        await DBService.updateMany('api_keys', { userId, revoked: false }, revocation);
+        await Promise.all(apiKeys.map(apiKey =>
+            CacheService.setApiKey(apiKey.keyId, { ...(apiKey as unknown as ApiKey), ...revocation })
+        ));
+    }
+
+    // Resolve a raw key to its owner, or null when it is invalid, revoked or expired
+    static async authenticate(rawKey: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+        const parsed = this.parseKey(rawKey);
+        if (!parsed) {
+            return null;
+        }
+
+        const apiKey = await CacheService.getApiKey(parsed.keyId);
+        if (!apiKey || apiKey.revoked || new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+            return null;
+        }
+
+        const presentedHash = Buffer.from(this.hashSecret(parsed.secret), "hex");
+        const storedHash = Buffer.from(apiKey.keyHash, "hex");
+        if (presentedHash.length !== storedHash.length || !timingSafeEqual(presentedHash, storedHash)) {
+            return null;
+        }
+
+        const user = await CacheService.getUser(apiKey.userId);
+        if (!user || user.disabled || user.suspended) {
+            return null;
+        }
+
+        this.touchLastUsed(apiKey).catch(error => {
+            console.error("API key last used update error:", error);
+        });
+
+        return { apiKey, user };
+    }
+
+    private static async touchLastUsed(apiKey: ApiKey): Promise<void> {
+        const lastUsed = apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).getTime() : 0;
+        if (Date.now() - lastUsed < this.LAST_USED_UPDATE_INTERVAL) {
+            return;
+        }
+
+        const lastUsedAt = new Date().toISOString();
+        await Promise.all([
+            DBService.updateByField('api_keys', 'keyId', apiKey.keyId, { lastUsedAt }),
+            CacheService.setApiKey(apiKey.keyId, { ...apiKey, lastUsedAt })
+        ]);
+    }
+}
+
+export default ApiKeyService;
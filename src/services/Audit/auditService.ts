@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import KafkaService from "../Kafka/kafkaService.js";
+import DBService from "../DB/dbService.js";
+import { AuditEvent, AuditEventFilters, AuditEventInput } from "../../models/AuditEvent.js";
+
+/**
+ * Security Audit Log
+ * - Append-only record of authentication and account events
+ * - Events travel through Kafka into the audit_events collection
+ * - Recording never throws, so auditing can't break the action being audited
+ */
+class AuditService {
+    static record(action: string, details: AuditEventInput): void {
+        try {
+            const event: AuditEvent = {
+                eventId: randomUUID(),
+                action,
+                ...details,
+                createdAt: new Date().toISOString()
+            };
+
+            KafkaService.sendAuditEvent(event.eventId, event).catch(error => {
+                console.error(`Audit event error for ${action}:`, error);
+            });
+        } catch (error) {
+            console.error(`Audit event error for ${action}:`, error);
+        }
+    }
+
+    static async queryEvents(filters: AuditEventFilters, page: number = 1, limit: number = 20) {
+        const query: any = {};
+        if (filters.action) query.action = filters.action;
+        if (filters.actorId) query.actorId = filters.actorId;
+        if (filters.targetId) query.targetId = filters.targetId;
+        if (filters.outcome) query.outcome = filters.outcome;
+        if (filters.from || filters.to) {
+            query.createdAt = {};
+            if (filters.from) query.createdAt.$gte = new Date(filters.from).toISOString();
+            if (filters.to) query.createdAt.$lte = new Date(filters.to).toISOString();
+        }
+
+        const { items, total } = await DBService.findPaginatedWithFilter('audit_events', query, page, limit, { createdAt: -1 });
+
+        return {
+            events: items as unknown as AuditEvent[],
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page
+        };
+    }
+}
+
+export default AuditService;
@@ -1,17 +1,32 @@
 import { InsertedUser, RequestUser, User, UserBillingData } from "../../models/User.js";
 import { Brand } from "../../models/Brand.js";
 import { Refferals } from "../../models/Refferals.js";
-import { decryptData, encryptData, sign, verify } from "securex";
+import { decryptData, sign, verify } from "securex";
+import { randomUUID } from "crypto";
 import UserService from "../User/userService.js";
 import CacheService from "../Cache/cacheService.js";
 import KafkaService from "../Kafka/kafkaService.js";
 import ReferralService from "../Referral/refferalService.js";
-import Validator from "../../helpers/Validator.js";
 import EmailService from "../Email/emailService.js";
+import AppError from "../../helpers/AppError.js";
+import PasswordService from "../Password/passwordService.js";
+import SessionService from "../Session/sessionService.js";
+import TokenService from "../Token/tokenService.js";
+import LockoutService from "../Lockout/lockoutService.js";
+import MfaService from "../Mfa/mfaService.js";
+import AuditService from "../Audit/auditService.js";
+import IdService from "../Id/idService.js";
+import BillingVaultService from "../Billing/billingVaultService.js";
+import IdentityService from "../Identity/identityService.js";
+import { ClientContext } from "../../models/Session.js";
+import { Role } from "../../models/Role.js";
 
 
 class AuthService {
-    static async registerUser(body: RequestUser) {
+    static async registerUser(body: RequestUser, context: ClientContext = {}) {
+        let claimedEmail: { normalizedEmail: string, userId: string } | null = null;
+        let billingToken: string | null = null;
+        let isIdentityStored = false;
         try {
             const securexKey = process.env.SECUREX_KEY as string;
             const { email, password, confirmpassword, firstname, lastname, ssn, billingdata, refferalcode } = body;
@@ -19,9 +34,9 @@ class AuthService {
             if (password !== confirmpassword) {
                 throw new Error("Password and Confirm Password do not match");
             }
-            const [isEmailExist, userId, isPasswordSafe] = await Promise.all([
+            const userId = IdService.generate("USR");
+            const [isEmailExist, isPasswordSafe] = await Promise.all([
                 UserService.isUserEmailExist(email),
-                UserService.generateUniqueUserId(),
                 this.checkPasswordSafe(password)
             ]);
 
@@ -36,7 +51,7 @@ class AuthService {
             const [
                 decryptedSSN,
                 decryptedBillingData,
-                encryptedPassword
+                hashedPassword
             ] = await Promise.all([
                 Promise.race([
                     decryptData(ssn, securexKey),
@@ -48,39 +63,49 @@ class AuthService {
                     new Promise((_, reject) => setTimeout(() => reject(new Error('Billing timeout')), 5000))
                 ]),
 
-                encryptData(password, securexKey)
-            ]);
-
-            const [isSSNValid, isBillingDataValid] = await Promise.all([
-                this.checkSSNValid(decryptedSSN),
-                this.checkBillingDataValid(decryptedBillingData)
+                PasswordService.hash(password)
             ]);
 
+            const isSSNValid = await this.checkSSNValid(decryptedSSN);
             if (!isSSNValid) {
                 throw new Error("Invalid SSN Token");
             }
+            const isSSNRegistered = await IdentityService.isSsnRegistered(decryptedSSN);
+            if (isSSNRegistered) {
+                throw new AppError("An account with this SSN already exists", 409, "SSN_ALREADY_REGISTERED");
+            }
 
-            if (!isBillingDataValid) {
-                throw new Error("Invalid Billing Data");
+            // Throws on a card that fails the Luhn, expiry or CVV checks
+            BillingVaultService.validateCard(decryptedBillingData);
+
+            // Reserving the email closes the race between two sign-ups with the same address
+            const normalizedEmail = UserService.normalizeEmail(email);
+            const isEmailClaimed = await CacheService.claimEmail(normalizedEmail, userId);
+            if (!isEmailClaimed) {
+                throw new Error("Email already exists");
             }
-            const tokens = await this.generateAuthTokens(userId, email, "user");
+            claimedEmail = { normalizedEmail, userId };
+
+            const identityVerifiedAt = await IdentityService.storeIdentity(userId, decryptedSSN);
+            isIdentityStored = true;
+
+            const session = await SessionService.createSession(userId, context);
+            const tokens = await this.generateAuthTokens(userId, email, "user", session);
             const userAccessToken = tokens.accessToken;
             const userRefreshToken = tokens.refreshToken;
 
             const currentTimestamp = new Date().toISOString();
-            const userBillingData: UserBillingData = {
-                accountname: decryptedBillingData.accountname,
-                accountnumber: decryptedBillingData.accountnumber,
-                expirydate: decryptedBillingData.expirydate,
-                cvv: decryptedBillingData.cvv
-            };
+            const userBillingData: UserBillingData = await BillingVaultService.tokenize(userId, decryptedBillingData);
+            billingToken = userBillingData.token;
 
             const insertedUser: InsertedUser = {
                 userId,
                 email,
+                normalizedEmail,
                 verified: false,
+                identityVerifiedAt,
                 role: "user",
-                password: encryptedPassword,
+                password: hashedPassword,
                 firstname,
                 lastname,
                 createdAt: currentTimestamp,
@@ -92,9 +117,11 @@ class AuthService {
             const completeUser: User = {
                 userId,
                 email,
+                normalizedEmail,
                 verified: false,
+                identityVerifiedAt,
                 role: "user",
-                password: encryptedPassword,
+                password: hashedPassword,
                 firstname,
                 lastname,
                 createdAt: currentTimestamp,
@@ -117,6 +144,14 @@ class AuthService {
             });
 
 
+            AuditService.record("auth.register", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success"
+            });
+
             return {
                 success: true,
                 userId,
@@ -125,11 +160,233 @@ class AuthService {
                 userAccessToken: userAccessToken
             };
 
+        } catch (error: any) {
+            if (claimedEmail) {
+                await CacheService.releaseEmail(claimedEmail.normalizedEmail, claimedEmail.userId);
+            }
+            if (billingToken) {
+                await BillingVaultService.deleteCard(billingToken).catch(() => undefined);
+            }
+            if (isIdentityStored && claimedEmail) {
+                await IdentityService.deleteIdentity(claimedEmail.userId).catch(() => undefined);
+            }
+            AuditService.record("auth.register", {
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.message,
+                metadata: { email: body.email }
+            });
+            throw error;
+        }
+    }
+
+    static async loginUser(email: string, password: string, context: ClientContext = {}) {
+        let userId: string | undefined;
+        try {
+            const user = await UserService.findUserByEmail(email);
+            if (!user) {
+                const normalizedEmail = UserService.normalizeEmail(email);
+                await LockoutService.assertUnknownEmailNotLocked(normalizedEmail);
+                // Hash anyway so unknown emails take as long as wrong passwords
+                await PasswordService.hash(password);
+                await LockoutService.recordFailedUnknownLogin(normalizedEmail);
+                throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
+            }
+
+            userId = user.userId;
+            await LockoutService.assertNotLocked(user.userId);
+
+            const { valid, needsRehash } = await PasswordService.verify(password, user.password);
+            if (!valid) {
+                await LockoutService.recordFailedLogin(user);
+                throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
+            }
+            await LockoutService.recordSuccessfulLogin(user.userId);
+
+            if (!user.verified) {
+                throw new AppError("Please verify your email before logging in", 403, "EMAIL_NOT_VERIFIED");
+            }
+
+            this.assertAccountActive(user);
+
+            if (needsRehash) {
+                // Upgrades legacy securex passwords and hashes made with old parameters
+                const hashedPassword = await PasswordService.hash(password);
+                const updatedUser = { ...user, password: hashedPassword };
+                const backgroundOperations = [
+                    CacheService.setUser(user.userId, updatedUser),
+                    KafkaService.sendUserUpdateEvent(user.userId, updatedUser)
+                ];
+                Promise.allSettled(backgroundOperations).catch(error => {
+                    console.error("Background operations error:", error);
+                });
+            }
+
+            // Accounts with two-factor enabled or required only get a short-lived MFA token here
+            if (user.mfa?.enabled || MfaService.isMfaRequired(user)) {
+                const purpose = user.mfa?.enabled ? "verify" : "enroll";
+                const mfaToken = await this.generateMfaToken(user.userId, purpose);
+                AuditService.record("auth.login", {
+                    actorId: user.userId,
+                    targetId: user.userId,
+                    targetType: "user",
+                    ...context,
+                    outcome: "success",
+                    metadata: { mfaPending: purpose }
+                });
+                return {
+                    success: true,
+                    userId: user.userId,
+                    message: purpose === "verify" ? "Two-factor code required" : "Two-factor setup required",
+                    mfaRequired: purpose === "verify",
+                    mfaEnrollmentRequired: purpose === "enroll",
+                    mfaToken
+                };
+            }
+
+            const session = await SessionService.createSession(user.userId, context);
+            const tokens = await this.generateAuthTokens(user.userId, user.email, user.role, session);
+
+            AuditService.record("auth.login", {
+                actorId: user.userId,
+                targetId: user.userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { sessionId: session.sessionId }
+            });
+
+            return {
+                success: true,
+                userId: user.userId,
+                message: "Logged in successfully",
+                accessToken: tokens.accessToken,
+                refreshToken: tokens.refreshToken
+            };
+        } catch (error: any) {
+            AuditService.record("auth.login", {
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.code ?? error?.message,
+                metadata: { email }
+            });
+            throw error;
+        }
+    }
+
+    // Disabled and suspended accounts cannot obtain new tokens
+    static assertAccountActive(user: User) {
+        if (user.disabled) {
+            throw new AppError("This account has been disabled", 403, "ACCOUNT_DISABLED");
+        }
+        if (user.suspended) {
+            throw new AppError("This account has been suspended", 403, "ACCOUNT_SUSPENDED");
+        }
+    }
+
+    static async generateMfaToken(userId: string, purpose: "verify" | "enroll"): Promise<string> {
+        return await sign({
+            type: "mfa_pending",
+            tokenId: randomUUID(),
+            userId,
+            purpose
+        }, process.env.SECUREX_KEY as string, Number(process.env.MFA_TOKEN_EXPIRY || '300'));
+    }
+
+    private static async verifyMfaToken(mfaToken: string) {
+        const tokenData = await verify(mfaToken, process.env.SECUREX_KEY as string);
+        if (!tokenData || tokenData.type !== "mfa_pending" || !tokenData.tokenId) {
+            throw new AppError("Two-factor session is not valid, please log in again", 401, "MFA_TOKEN_INVALID");
+        }
+        return tokenData;
+    }
+
+    // Start the enrollment a login required, before the user has any access token
+    static async startRequiredMfaEnrollment(mfaToken: string) {
+        try {
+            const tokenData = await this.verifyMfaToken(mfaToken);
+            if (tokenData.purpose !== "enroll") {
+                throw new AppError("Two-factor authentication is already enabled", 409, "MFA_ALREADY_ENABLED");
+            }
+            const enrollment = await MfaService.startEnrollment(tokenData.userId);
+            return { success: true, message: "Scan the QR code and confirm with a code", ...enrollment };
         } catch (error) {
             throw error;
         }
     }
 
+    // Exchange an MFA token and a valid code for the real token pair
+    static async completeMfaLogin(mfaToken: string, code: string, context: ClientContext = {}) {
+        let userId: string | undefined;
+        try {
+            const tokenData = await this.verifyMfaToken(mfaToken);
+            const { tokenId, purpose } = tokenData;
+            userId = tokenData.userId as string;
+
+            const user = await CacheService.getUser(userId);
+            if (!user) {
+                throw new Error("User not found");
+            }
+            this.assertAccountActive(user);
+            await LockoutService.assertNotLocked(userId);
+
+            let recoveryCodes: string[] | undefined;
+            if (purpose === "enroll") {
+                recoveryCodes = await MfaService.confirmEnrollment(userId, code, context).catch(async (error) => {
+                    if (error instanceof AppError && error.code === "INVALID_MFA_CODE") {
+                        await LockoutService.recordFailedLogin(user);
+                    }
+                    throw error;
+                });
+            } else {
+                const isValid = await MfaService.verifyUserCode(user, code);
+                if (!isValid) {
+                    await LockoutService.recordFailedLogin(user);
+                    throw new AppError("Invalid two-factor code", 401, "INVALID_MFA_CODE");
+                }
+            }
+
+            const isFirstUse = await TokenService.consumeOneTimeToken(tokenId, Number(process.env.MFA_TOKEN_EXPIRY || '300'));
+            if (!isFirstUse) {
+                throw new AppError("Two-factor session is not valid, please log in again", 401, "MFA_TOKEN_INVALID");
+            }
+            await LockoutService.recordSuccessfulLogin(userId);
+
+            const session = await SessionService.createSession(userId, context);
+            const tokens = await this.generateAuthTokens(userId, user.email, user.role, session);
+
+            AuditService.record(purpose === "enroll" ? "auth.mfa_enroll" : "auth.mfa_verify", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { sessionId: session.sessionId }
+            });
+
+            return {
+                success: true,
+                userId,
+                message: "Logged in successfully",
+                accessToken: tokens.accessToken,
+                refreshToken: tokens.refreshToken,
+                recoveryCodes
+            };
+        } catch (error: any) {
+            AuditService.record("auth.mfa_verify", {
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.code ?? error?.message
+            });
+            throw error;
+        }
+    }
+
     static async checkPasswordSafe(password: string) {
         const isPasswordSafe = password.length >= 6 && /[A-Z]/.test(password) && /[0-9]/.test(password) && /[!@#$%^&*]/.test(password);
         return isPasswordSafe;
@@ -141,24 +398,8 @@ class AuthService {
     }
 
 
-    static async checkBillingDataValid(billingdata: any) {
-        const requiredFields = ["accountname", "accountnumber", "expirydate", "cvv"];
-        const { isValid, missingFields } = Validator.validate(requiredFields, billingdata);
-
-        if (!isValid) {
-            return false;
-        }
-
-        const isBillingDataValid =
-            typeof billingdata === "object" &&
-            billingdata !== null &&
-            Object.keys(billingdata).length > 0 &&
-            missingFields.length === 0;
-
-        return isBillingDataValid;
-    }
-
-    static async verifyEmail(token: string) {
+    static async verifyEmail(token: string, context: ClientContext = {}) {
+        let userId: string | undefined;
         try {
             // Verify the token
             const tokenData = await verify(token, process.env.SECUREX_KEY as string);
@@ -168,7 +409,7 @@ class AuthService {
                 throw new Error("Invalid verification token");
             }
 
-            const { userId } = tokenData;
+            userId = tokenData.userId as string;
 
             // Get user from cache
             const user = await CacheService.getUser(userId);
@@ -181,6 +422,11 @@ class AuthService {
                 throw new Error("User already verified");
             }
 
+            // Links sent before an email change must not verify the new address
+            if (tokenData.email && tokenData.email !== user.email) {
+                throw new Error("Verification link is no longer valid");
+            }
+
             // Update user verification status
             const updatedUser = { ...user, verified: true };
 
@@ -193,55 +439,230 @@ class AuthService {
                 console.error("Background operations error:", error);
             });
 
+            AuditService.record("auth.verify_email", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success"
+            });
+
             return { success: true, message: "Email verified successfully" };
 
         } catch (error: any) {
+            AuditService.record("auth.verify_email", {
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.message
+            });
             throw new Error(error.message || "Email verification failed");
         }
     }
-    static async generateAuthTokens(userId: string, email: string, role: "user" | "admin"): Promise<{ accessToken: string, refreshToken: string }> {
+    static async resendVerificationEmail(email: string, context: ClientContext = {}) {
+        const message = "If an unverified account exists for this email, a verification link has been sent";
         try {
-            const securexKey = process.env.SECUREX_KEY as string;
-            const userEncryptionData = { userId, email, role };
+            const user = await UserService.findUserByEmail(email);
+            if (user && !user.verified) {
+                const cooldown = Number(process.env.VERIFICATION_RESEND_COOLDOWN || '60');
+                const canSend = await CacheService.acquireThrottle("verification_resend", user.userId, cooldown);
+                if (canSend) {
+                    EmailService.sendVerficationEmail(user.email, user.userId).catch(error => {
+                        console.error("Resend verification email error:", error);
+                    });
+                }
+                AuditService.record("auth.resend_verification", {
+                    targetId: user.userId,
+                    targetType: "user",
+                    ...context,
+                    outcome: canSend ? "success" : "failure",
+                    reason: canSend ? undefined : "throttled"
+                });
+            }
+        } catch (error: any) {
+            console.error('Resend verification lookup error:', error?.message ?? "Unknown error");
+        }
+        return { success: true, message };
+    }
 
-            const [accessToken, refreshToken] = await Promise.all([
-                sign({ ...userEncryptionData, type: "access" }, securexKey, Number(process.env.ACCESS_TOKEN_EXPIRY as string)),
-                sign({ ...userEncryptionData, type: "refresh" }, securexKey, Number(process.env.REFRESH_TOKEN_EXPIRY as string))
-            ]);
+    static async requestEmailChange(userId: string, newEmail: string, password: string, context: ClientContext = {}) {
+        try {
+            const user = await CacheService.getUser(userId);
+            if (!user) {
+                throw new Error("User not found");
+            }
 
-            return { accessToken, refreshToken };
+            const { valid } = await PasswordService.verify(password, user.password);
+            if (!valid) {
+                throw new AppError("Password is incorrect", 401, "INVALID_CREDENTIALS");
+            }
+
+            const trimmedEmail = typeof newEmail === "string" ? newEmail.trim() : "";
+            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail) || trimmedEmail.length > 254) {
+                throw new AppError("A valid email is required", 400, "INVALID_EMAIL");
+            }
+
+            // Compare normalized forms so a case or alias variant of the current address is rejected
+            const normalizedEmail = UserService.normalizeEmail(trimmedEmail);
+            if (normalizedEmail === UserService.normalizeEmail(user.email)) {
+                throw new Error("New email must be different from the current email");
+            }
+
+            const isEmailExist = await UserService.isUserEmailExist(normalizedEmail);
+            if (isEmailExist) {
+                throw new Error("Email already exists");
+            }
+
+            await EmailService.sendEmailChangeConfirmationEmail(trimmedEmail, userId);
+
+            AuditService.record("auth.change_email_request", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { newEmail: trimmedEmail }
+            });
+
+            return { success: true, message: "A confirmation link has been sent to the new email" };
         } catch (error: any) {
-            throw new Error(`Token generation failed: ${error.message || "Unknown error"}`);
+            AuditService.record("auth.change_email_request", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.code ?? error?.message
+            });
+            throw error;
         }
     }
 
-    static async forgotPassword(userId: string) {
+    static async confirmEmailChange(token: string, context: ClientContext = {}) {
+        let userId: string | undefined;
         try {
+            const tokenData = await verify(token, process.env.SECUREX_KEY as string);
+            if (tokenData.type !== "change_email" || !tokenData.tokenId) {
+                throw new Error("Invalid email change token");
+            }
+
+            const { newEmail, tokenId } = tokenData;
+            userId = tokenData.userId as string;
             const user = await CacheService.getUser(userId);
             if (!user) {
                 throw new Error("User not found");
             }
-            if (!user.verified) {
-                throw new Error("User is not verified");
+
+            const isEmailExist = await UserService.isUserEmailExist(newEmail);
+            if (isEmailExist) {
+                throw new Error("Email already exists");
+            }
+
+            const normalizedEmail = UserService.normalizeEmail(newEmail);
+            const isEmailClaimed = await CacheService.claimEmail(normalizedEmail, userId);
+            if (!isEmailClaimed) {
+                throw new Error("Email already exists");
             }
+
+            const isFirstUse = await TokenService.consumeOneTimeToken(tokenId, Number(process.env.EMAIL_CHANGE_TOKEN_EXPIRY as string));
+            if (!isFirstUse) {
+                await CacheService.releaseEmail(normalizedEmail, userId);
+                throw new Error("Email change link has already been used");
+            }
+
+            const oldEmail = user.email;
+            const updatedUser = { ...user, email: newEmail, normalizedEmail };
+            await CacheService.setUser(userId, updatedUser);
+
+            const oldNormalizedEmail = UserService.normalizeEmail(oldEmail);
+            if (oldNormalizedEmail !== normalizedEmail) {
+                await CacheService.releaseEmail(oldNormalizedEmail, userId);
+            }
+
             const backgroundOperations = [
-                EmailService.sendForgotPasswordEmail(user.email, userId)
+                KafkaService.sendUserUpdateEvent(userId, updatedUser),
+                EmailService.sendEmailChangedNoticeEmail(oldEmail, newEmail)
             ];
             Promise.allSettled(backgroundOperations).catch(error => {
                 console.error("Background operations error:", error);
             });
-            return { success: true, message: "Password reset email sent successfully" };
-        } catch (error) {
-            throw error;
+
+            AuditService.record("auth.change_email", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { oldEmail, newEmail }
+            });
+
+            return { success: true, message: "Email changed successfully" };
+        } catch (error: any) {
+            AuditService.record("auth.change_email", {
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.message
+            });
+            if (error instanceof AppError) {
+                throw error;
+            }
+            throw new Error(error?.message || "Email change failed");
         }
     }
-    static async resetPassword(token: string, password: string) {
+
+    static async generateAuthTokens(userId: string, email: string, role: Role, session: { sessionId: string, tokenId: string }): Promise<{ accessToken: string, refreshToken: string }> {
+        try {
+            const securexKey = process.env.SECUREX_KEY as string;
+            const tokenVersion = await TokenService.getTokenVersion(userId) ?? 0;
+            const userEncryptionData = { userId, email, role, tokenVersion, sessionId: session.sessionId };
+
+            const [accessToken, refreshToken] = await Promise.all([
+                sign({ ...userEncryptionData, type: "access" }, securexKey, Number(process.env.ACCESS_TOKEN_EXPIRY as string)),
+                sign({ ...userEncryptionData, tokenId: session.tokenId, type: "refresh" }, securexKey, Number(process.env.REFRESH_TOKEN_EXPIRY as string))
+            ]);
+
+            return { accessToken, refreshToken };
+        } catch (error: any) {
+            throw new Error(`Token generation failed: ${error.message || "Unknown error"}`);
+        }
+    }
+
+    static async forgotPassword(email: string, context: ClientContext = {}) {
+        const message = "If an account exists for this email, a password reset link has been sent";
+        try {
+            const user = await UserService.findUserByEmail(email);
+            if (user && user.verified && !user.disabled && !user.suspended) {
+                const backgroundOperations = [
+                    EmailService.sendForgotPasswordEmail(user.email, user.userId)
+                ];
+                Promise.allSettled(backgroundOperations).catch(error => {
+                    console.error("Background operations error:", error);
+                });
+                AuditService.record("auth.forgot_password", {
+                    targetId: user.userId,
+                    targetType: "user",
+                    ...context,
+                    outcome: "success"
+                });
+            }
+        } catch (error: any) {
+            // Never reveal lookup failures, the response must not depend on the email
+            console.error('Forgot password lookup error:', error?.message ?? "Unknown error");
+        }
+        return { success: true, message };
+    }
+    static async resetPassword(token: string, password: string, context: ClientContext = {}) {
+        let userId: string | undefined;
         try {
             const tokenData = await verify(token, process.env.SECUREX_KEY as string);
-            if (tokenData.type !== "reset_password") {
+            if (tokenData.type !== "reset_password" || !tokenData.tokenId) {
                 throw new Error("Invalid reset password token");
             }
-            const { userId } = tokenData;
+            const { tokenId } = tokenData;
+            userId = tokenData.userId as string;
             const user = await CacheService.getUser(userId);
             if (!user) {
                 throw new Error("User not found");
@@ -253,8 +674,12 @@ class AuthService {
             if (!isPasswordSafe) {
                 throw new Error("Password is not safe");
             }
-            const encryptedPassword = await encryptData(password, process.env.SECUREX_KEY as string);
-            const updatedUser = { ...user, "password": encryptedPassword };
+            const isFirstUse = await TokenService.consumeOneTimeToken(tokenId, Number(process.env.RESET_PASSWORD_TOKEN_EXPIRY as string));
+            if (!isFirstUse) {
+                throw new Error("Password reset link has already been used");
+            }
+            const hashedPassword = await PasswordService.hash(password);
+            const updatedUser = { ...user, "password": hashedPassword };
             const backgroundOperations = [
                 await CacheService.setUser(userId, updatedUser),
                 await KafkaService.sendUserUpdateEvent(userId, updatedUser)
@@ -262,33 +687,115 @@ class AuthService {
             Promise.allSettled(backgroundOperations).catch(error => {
                 console.error("Background operations error:", error);
             });
+
+            // Sign out every device that still holds a token issued with the old password
+            await TokenService.revokeAllUserTokens(userId, "password_reset");
+
+            AuditService.record("auth.reset_password", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success"
+            });
             return { success: true, message: "Password reset successfully" };
 
         } catch (error: any) {
+            AuditService.record("auth.reset_password", {
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.message
+            });
             throw new Error(error.message || "Password reset failed");
         }
     }
 
 
-    static async refreshToken(refreshToken: string) {
+    static async refreshToken(refreshToken: string, context: ClientContext = {}) {
+        let userId: string | undefined;
         try {
             const tokenData = await verify(refreshToken, process.env.SECUREX_KEY as string);
             if (tokenData.type !== "refresh") {
                 throw new Error("Invalid refresh token");
             }
-            const { userId } = tokenData;
+            const { sessionId, tokenId } = tokenData;
+            userId = tokenData.userId as string;
+            if (!sessionId || !tokenId) {
+                throw new AppError("Session has expired, please log in again", 401, "SESSION_INVALID");
+            }
             const user = await CacheService.getUser(userId);
             if (!user) {
                 throw new Error("User not found");
             }
-            const tokens = await this.generateAuthTokens(userId, user.email, user.role);
+            this.assertAccountActive(user);
+            const newTokenId = await SessionService.rotateSession(sessionId, userId, tokenId);
+            const tokens = await this.generateAuthTokens(userId, user.email, user.role, { sessionId, tokenId: newTokenId });
+
+            AuditService.record("auth.refresh_token", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { sessionId }
+            });
             return { success: true, message: "Token refreshed successfully", accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
         } catch (error: any) {
+            AuditService.record("auth.refresh_token", {
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "failure",
+                reason: error?.code ?? error?.message
+            });
+            if (error instanceof AppError) {
+                throw error;
+            }
             throw new Error(error?.message || "Token refresh failed");
 
         }
     }
 
+    static async logout(refreshToken: string, context: ClientContext = {}) {
+        try {
+            const tokenData = await verify(refreshToken, process.env.SECUREX_KEY as string);
+            if (tokenData.type !== "refresh" || !tokenData.sessionId) {
+                throw new Error("Invalid refresh token");
+            }
+            await SessionService.revokeSession(tokenData.sessionId, "logout");
+            AuditService.record("auth.logout", {
+                actorId: tokenData.userId,
+                targetId: tokenData.userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { sessionId: tokenData.sessionId }
+            });
+            return { success: true, message: "Logged out successfully" };
+        } catch (error: any) {
+            throw new Error(error?.message || "Logout failed");
+        }
+    }
+
+    static async logoutAll(userId: string, context: ClientContext = {}) {
+        try {
+            const revokedCount = await SessionService.revokeAllUserSessions(userId, "logout_all");
+            AuditService.record("auth.logout_all", {
+                actorId: userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success",
+                metadata: { revokedCount }
+            });
+            return { success: true, message: "Logged out from all devices successfully", revokedCount };
+        } catch (error: any) {
+            throw new Error(error?.message || "Logout failed");
+        }
+    }
+
 }
 
 export default AuthService;
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { randomBytes } from "crypto";
+import { decryptData, encryptData } from "securex";
+import DBService from "../DB/dbService.js";
+import CacheService from "../Cache/cacheService.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import AuditService from "../Audit/auditService.js";
+import AppError from "../../helpers/AppError.js";
+import { User, UserBillingData } from "../../models/User.js";
+import { BillingVaultCard, BillingVaultRecord, CardBrand, MaskedCard } from "../../models/Billing.js";
+import { ClientContext } from "../../models/Session.js";
+
+/**
+ * Billing Vault
+ * - Card numbers live only in the billing_vault collection, encrypted with BILLING_VAULT_KEY
+ * - Users carry a vault token with the card brand and last four digits
+ * - The CVV is checked on intake and then discarded
+ */
+class BillingVaultService {
+    private static readonly COLLECTION = "billing_vault";
+
+    private static getVaultKey(): string {
+        const vaultKey = process.env.BILLING_VAULT_KEY;
+        if (!vaultKey) {
+            throw new Error("BILLING_VAULT_KEY not found in environment variables");
+        }
+        return vaultKey;
+    }
+
+    private static detectBrand(accountnumber: string): CardBrand {
+        const prefix = Number(accountnumber.slice(0, 4));
+        if (/^4/.test(accountnumber)) return "visa";
+        if (/^5[1-5]/.test(accountnumber) || (prefix >= 2221 && prefix <= 2720)) return "mastercard";
+        if (/^3[47]/.test(accountnumber)) return "amex";
+        if (/^(6011|65|64[4-9])/.test(accountnumber)) return "discover";
+        return "unknown";
+    }
+
+    private static passesLuhn(accountnumber: string): boolean {
+        let sum = 0;
+        for (let i = 0; i < accountnumber.length; i++) {
+            let digit = Number(accountnumber[accountnumber.length - 1 - i]);
+            if (i % 2 === 1) {
+                digit *= 2;
+                if (digit > 9) digit -= 9;
+            }
+            sum += digit;
+        }
+        return sum % 10 === 0;
+    }
+
+    // Accepts MM/YY, MM/YYYY and the same with a dash
+    private static parseExpiry(expirydate: string): { month: number; year: number } | null {
+        const match = /^(\d{1,2})\s*[\/-]\s*(\d{2}|\d{4})$/.exec(expirydate.trim());
+        if (!match) {
+            return null;
+        }
+        const month = Number(match[1]);
+        const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+        if (month < 1 || month > 12) {
+            return null;
+        }
+        return { month, year };
+    }
+
+    private static formatExpiry(month: number, year: number): string {
+        return `${String(month).padStart(2, "0")}/${String(year % 100).padStart(2, "0")}`;
+    }
+
+    // Validate raw card data, returning the normalized card without its CVV
+    static validateCard(input: any): BillingVaultCard & { brand: CardBrand } {
+        if (!input || typeof input !== "object") {
+            throw new AppError("Invalid Billing Data", 400, "INVALID_BILLING_DATA");
+        }
+
+        const accountname = typeof input.accountname === "string" ? input.accountname.trim() : "";
+        if (!accountname || accountname.length > 100) {
+            throw new AppError("Cardholder name is required", 400, "INVALID_BILLING_DATA");
+        }
+
+        const accountnumber = String(input.accountnumber ?? "").replace(/[\s-]/g, "");
+        if (!/^\d{12,19}$/.test(accountnumber) || !this.passesLuhn(accountnumber)) {
+            throw new AppError("Card number is invalid", 400, "INVALID_CARD_NUMBER");
+        }
+
+        const expiry = this.parseExpiry(String(input.expirydate ?? ""));
+        const now = new Date();
+        // A card stays valid through the last day of its expiry month
+        if (!expiry || new Date(expiry.year, expiry.month, 1) <= now) {
+            throw new AppError("Card expiry date must be in the future", 400, "INVALID_CARD_EXPIRY");
+        }
+
+        const brand = this.detectBrand(accountnumber);
+        const cvvPattern = brand === "amex" ? /^\d{4}$/ : /^\d{3}$/;
+        if (!cvvPattern.test(String(input.cvv ?? "").trim())) {
+            throw new AppError("Card security code is invalid", 400, "INVALID_CARD_CVV");
+        }
+
+        return {
+            accountname,
+            accountnumber,
+            expirymonth: expiry.month,
+            expiryyear: expiry.year,
+            brand
+        };
+    }
+
+    // Store a validated card in the vault and return the reference kept on the user
+    private static async storeCard(userId: string, card: BillingVaultCard, brand: CardBrand): Promise<UserBillingData> {
+        const token = `tok_${randomBytes(16).toString("hex")}`;
+        const last4 = card.accountnumber.slice(-4);
+
+        const record: BillingVaultRecord = {
+            token,
+            userId,
+            brand,
+            last4,
+            card: await encryptData(card, this.getVaultKey()),
+            createdAt: new Date().toISOString()
+        };
+        await DBService.insertData(this.COLLECTION, record);
+
+        return { token, brand, last4 };
+    }
+
+    static async tokenize(userId: string, input: any): Promise<UserBillingData> {
+        const { brand, ...card } = this.validateCard(input);
+        return await this.storeCard(userId, card, brand);
+    }
+
+    static async deleteCard(token: string): Promise<void> {
+        if (!token) {
+            return;
+        }
+        await DBService.deleteByField(this.COLLECTION, "token", token);
+    }
+
+    private static async getCard(token: string): Promise<BillingVaultCard | null> {
+        const record = await DBService.findByField(this.COLLECTION, "token", token);
+        if (!record) {
+            return null;
+        }
+        return await decryptData(record.card, this.getVaultKey());
+    }
+
+    // Vault a raw card left on a user created before the vault; the CVV is not carried over
+    private static async vaultLegacyCard(userId: string, legacyCard: any): Promise<UserBillingData> {
+        const accountnumber = String(legacyCard.accountnumber).replace(/[\s-]/g, "");
+        const expiry = this.parseExpiry(String(legacyCard.expirydate ?? ""));
+        return await this.storeCard(userId, {
+            accountname: String(legacyCard.accountname ?? ""),
+            accountnumber,
+            expirymonth: expiry?.month ?? 0,
+            expiryyear: expiry?.year ?? 0
+        }, this.detectBrand(accountnumber));
+    }
+
+    // Move raw card fields left on users created before the vault into it
+    private static async migrateLegacyCard(user: User): Promise<User> {
+        const legacyCard = user.billingdata as any;
+        if (!legacyCard?.accountnumber || legacyCard.token) {
+            return user;
+        }
+
+        const billingdata = await this.vaultLegacyCard(user.userId, legacyCard);
+        const updatedUser: User = { ...user, billingdata };
+        await CacheService.setUser(user.userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(user.userId, updatedUser).catch(error => {
+            console.error("Billing migration event error:", error);
+        });
+        return updatedUser;
+    }
+
+    // Startup pass over every stored user still holding a raw card
+    static async migrateStoredLegacyCards(): Promise<number> {
+        const filter = { "billingdata.accountnumber": { $exists: true } };
+        let migratedCount = 0;
+
+        // Replacing billingdata drops the raw number, expiry and CVV, so every pass shrinks the set of matching users
+        for (let batch = await DBService.findByFilter("users", filter, 500); batch.length > 0; batch = await DBService.findByFilter("users", filter, 500)) {
+            for (const user of batch) {
+                const billingdata = user.billingdata?.token
+                    ? { token: user.billingdata.token, brand: user.billingdata.brand, last4: user.billingdata.last4 }
+                    : await this.vaultLegacyCard(user.userId, user.billingdata);
+                await DBService.updateById("users", String(user._id), { billingdata });
+                await CacheService.deleteUser(user.userId);
+                migratedCount++;
+            }
+        }
+
+        if (migratedCount > 0) {
+            await CacheService.clearUserListingCache();
+        }
+        return migratedCount;
+    }
+
+    static async getMaskedCard(userId: string): Promise<MaskedCard | null> {
+        const storedUser = await CacheService.getUser(userId);
+        if (!storedUser) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+
+        const user = await this.migrateLegacyCard(storedUser);
+        if (!user.billingdata?.token) {
+            return null;
+        }
+
+        const card = await this.getCard(user.billingdata.token);
+        return {
+            brand: user.billingdata.brand,
+            last4: user.billingdata.last4,
+            accountname: card?.accountname ?? "",
+            expirydate: card && card.expirymonth ? this.formatExpiry(card.expirymonth, card.expiryyear) : ""
+        };
+    }
+
+    // Replace the user's card, dropping the previous vault record
+    static async replaceCard(userId: string, encryptedCard: string, context: ClientContext = {}): Promise<MaskedCard> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+
+        // Clients encrypt card data with the shared key, as on registration
+        const input = await decryptData(encryptedCard, process.env.SECUREX_KEY as string).catch(() => null);
+        const { brand, ...card } = this.validateCard(input);
+        const billingdata = await this.storeCard(userId, card, brand);
+
+        const updatedUser: User = { ...user, billingdata };
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Billing update event error:", error);
+        });
+
+        const previousToken = (user.billingdata as any)?.token;
+        if (previousToken) {
+            await this.deleteCard(previousToken).catch(error => {
+                console.error("Billing vault cleanup error:", error);
+            });
+        }
+
+        AuditService.record("billing.replace_card", {
+            actorId: userId,
+            targetId: userId,
+            targetType: "user",
+            ...context,
+            outcome: "success",
+            metadata: { brand, last4: billingdata.last4 }
+        });
+
+        return {
+            brand,
+            last4: billingdata.last4,
+            accountname: card.accountname,
+            expirydate: this.formatExpiry(card.expirymonth, card.expiryyear)
+        };
+    }
+}
+
+export default BillingVaultService;
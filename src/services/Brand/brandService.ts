@@ -1,46 +1,776 @@
+import { createHash } from "crypto";
 import CacheService from "../Cache/cacheService.js";
-import { Brand } from "../../models/Brand.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import DBService from "../DB/dbService.js";
+import IdService from "../Id/idService.js";
+import AuditService from "../Audit/auditService.js";
+import ImageService from "../Image/imageService.js";
+import StorageService from "../Storage/storageService.js";
+import EmailService from "../Email/emailService.js";
+import ReferenceService from "../Reference/referenceService.js";
+import BrandMemberService from "../BrandMember/brandMemberService.js";
+import AppError from "../../helpers/AppError.js";
+import { BrandOwnershipTransfer } from "../../models/BrandMember.js";
+import { Brand, BrandReview, BrandStatus, BrandSearchQuery, BrandSearchResult, BrandSearchSort, InsertedBrand, RequestBrand } from "../../models/Brand.js";
+import { Role } from "../../models/Role.js";
+import { ClientContext } from "../../models/Session.js";
 
 class BrandService {
+    private static readonly MAX_NAME_LENGTH = 100;
+    private static readonly MAX_DESCRIPTION_LENGTH = 2000;
+    private static readonly MAX_SEARCH_TEXT_LENGTH = 100;
+    private static readonly MAX_SEARCH_STATES = 50;
+    private static readonly DEFAULT_SEARCH_LIMIT = 20;
+    private static readonly MAX_SEARCH_LIMIT = 50;
+    private static readonly MAX_REVIEW_NOTE_LENGTH = 1000;
+    private static readonly MAX_REVIEW_HISTORY = 50;
+    // Status changes each status allows; owners submit, reviewers make every other change
+    private static readonly STATUS_TRANSITIONS: Record<BrandStatus, BrandStatus[]> = {
+        draft: ["submitted"],
+        submitted: ["approved", "rejected"],
+        rejected: ["submitted"],
+        approved: ["suspended"],
+        suspended: ["approved"]
+    };
+    private static readonly REVIEW_STATUSES: BrandStatus[] = ["approved", "rejected", "suspended"];
+    // Field and direction behind each sort option, ties are broken by brandid in the same direction
+    private static readonly SEARCH_SORTS: Record<BrandSearchSort, { field: string; direction: 1 | -1 }> = {
+        relevance: { field: "score", direction: -1 },
+        name: { field: "name", direction: 1 },
+        "-name": { field: "name", direction: -1 },
+        yearfounded: { field: "yearfounded", direction: 1 },
+        "-yearfounded": { field: "yearfounded", direction: -1 },
+        createdAt: { field: "createdAt", direction: 1 },
+        "-createdAt": { field: "createdAt", direction: -1 }
+    };
+    // Matches the collation of the brands_status_name_sort index so name sorting is case-insensitive and indexed.
+    // Text search only runs under the simple collation, so text results sorted by name compare case-sensitively
+    private static readonly SEARCH_COLLATION = { locale: "en", strength: 2 };
 
-    // Generate unique brandId in format BRD001X9K
-    static async generateUniqueBrandId(): Promise<string> {
-        try {
-            let attempts = 0;
-            const maxAttempts = 100;
-
-            while (attempts < maxAttempts) {
-                // Generate random 3-digit number (001-999)
-                const numPart = Math.floor(Math.random() * 999) + 1;
-                const paddedNum = numPart.toString().padStart(3, '0');
-
-                // Generate random 3-character alphanumeric (X9K)
-                const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-                let alphaPart = '';
-                for (let i = 0; i < 3; i++) {
-                    alphaPart += chars.charAt(Math.floor(Math.random() * chars.length));
-                }
+    // Validate the editable brand fields, requiring a name when creating
+    private static validateBrandFields(body: any, isCreate: boolean): Partial<RequestBrand> {
+        if (!body || typeof body !== "object" || Array.isArray(body)) {
+            throw new AppError("Invalid brand data", 400, "INVALID_BRAND");
+        }
+
+        const fields: Partial<RequestBrand> = {};
+
+        if (body.name !== undefined || isCreate) {
+            const name = typeof body.name === "string" ? body.name.trim() : "";
+            if (!name || name.length > this.MAX_NAME_LENGTH) {
+                throw new AppError(`Brand name must be 1-${this.MAX_NAME_LENGTH} characters`, 400, "INVALID_BRAND_NAME");
+            }
+            fields.name = name;
+        }
+
+        if (body.yearfounded !== undefined) {
+            const yearfounded = String(body.yearfounded).trim();
+            if (!/^\d{4}$/.test(yearfounded) || Number(yearfounded) > new Date().getFullYear()) {
+                throw new AppError("Year founded must be a four-digit year not in the future", 400, "INVALID_BRAND_YEAR");
+            }
+            fields.yearfounded = yearfounded;
+        }
+
+        if (body.description !== undefined) {
+            const description = typeof body.description === "string" ? body.description.trim() : "";
+            if (description.length > this.MAX_DESCRIPTION_LENGTH) {
+                throw new AppError(`Description must be at most ${this.MAX_DESCRIPTION_LENGTH} characters`, 400, "INVALID_BRAND_DESCRIPTION");
+            }
+            fields.description = description;
+        }
+
+        if (body.logo !== undefined) {
+            const logo = typeof body.logo === "string" ? body.logo.trim() : "";
+            if (!/^https?:\/\/\S+$/i.test(logo)) {
+                throw new AppError("Logo must be an http(s) URL", 400, "INVALID_BRAND_LOGO");
+            }
+            fields.logo = logo;
+        }
+
+        if (body.distributionstates !== undefined || isCreate) {
+            const distributionstates = body.distributionstates ?? [];
+            if (!Array.isArray(distributionstates)) {
+                throw new AppError("Distribution states must be a list of US state codes or names", 400, "INVALID_BRAND_STATES");
+            }
+            // Stored as canonical USPS codes so state filters match exactly
+            const { codes, invalid } = ReferenceService.normalizeUsStates(distributionstates);
+            if (invalid.length > 0) {
+                throw new AppError(`Unknown states: ${invalid.join(", ")}`, 400, "INVALID_BRAND_STATES");
+            }
+            fields.distributionstates = codes;
+        }
+
+        return fields;
+    }
+
+    // Reviewer notes and the review trail are only shown to the owner and reviewers
+    static toPublicBrand(brand: Brand): Brand {
+        const { reviewnote, reviewhistory, ...publicBrand } = brand;
+        return publicBrand;
+    }
+
+    // Create the single brand a user can own and link it to the user
+    static async createBrand(userId: string, body: RequestBrand, context: ClientContext = {}): Promise<Brand> {
+        const fields = this.validateBrandFields(body, true);
+
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+
+        // Guards against a double submit creating two brands before the first reaches the DB
+        const isCreateAllowed = await CacheService.acquireThrottle("brand_create", userId, 10);
+        if (!isCreateAllowed) {
+            throw new AppError("A brand is already being created for this account", 409, "BRAND_ALREADY_EXISTS");
+        }
+
+        const existingBrandId = user.brandid || user.brand?.brandid;
+        const existingBrand = existingBrandId
+            ? await CacheService.getBrand(existingBrandId)
+            : await DBService.findByField('brands', 'ownerid', userId);
+        if (existingBrand) {
+            throw new AppError("You already own a brand", 409, "BRAND_ALREADY_EXISTS");
+        }
+
+        const brandId = IdService.generate("BRD");
+        const currentTimestamp = new Date().toISOString();
+        const insertedBrand: InsertedBrand = {
+            brandid: brandId,
+            ownerid: userId,
+            name: fields.name!,
+            yearfounded: fields.yearfounded,
+            description: fields.description,
+            logourl: fields.logo ?? "",
+            distributionstates: fields.distributionstates ?? [],
+            // Each brand keeps its products in one products document named after it
+            productsdocid: brandId,
+            // New brands stay private until a reviewer approves them
+            status: "draft",
+            statusUpdatedAt: currentTimestamp,
+            createdAt: currentTimestamp,
+            updatedAt: currentTimestamp
+        };
+        const { productsdocid, ...brandFields } = insertedBrand;
+        const brand: Brand = { ...brandFields, products: [] };
+
+        const updatedUser = { ...user, brandid: brandId, brand };
+        await Promise.all([
+            CacheService.setBrand(brandId, brand),
+            CacheService.setUser(userId, updatedUser)
+        ]);
+
+        const backgroundOperations = [
+            KafkaService.sendBrandCreateEvent(brandId, insertedBrand),
+            KafkaService.sendUserUpdateEvent(userId, updatedUser)
+        ];
+        Promise.allSettled(backgroundOperations).catch(error => {
+            console.error("Background operations error:", error);
+        });
+
+        AuditService.record("brand.create", {
+            actorId: userId,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success"
+        });
+
+        return brand;
+    }
+
+    // Persist changes to a brand and keep the copy embedded on its owner in step
+    private static async saveBrandChanges(brand: Brand, changes: Partial<Brand>): Promise<Brand> {
+        const updatedBrand: Brand = {
+            ...brand,
+            ...changes,
+            updatedAt: new Date().toISOString()
+        };
+
+        await CacheService.setBrand(brand.brandid, updatedBrand);
+        KafkaService.sendBrandUpdateEvent(brand.brandid, updatedBrand).catch(error => {
+            console.error("Brand update event error:", error);
+        });
+
+        const owner = await CacheService.getUser(brand.ownerid);
+        if (owner) {
+            await CacheService.setUser(owner.userId, { ...owner, brand: updatedBrand });
+        }
+
+        return updatedBrand;
+    }
+
+    // Edits to an approved brand send it back to the moderation queue before they go public
+    private static getResubmission(brand: Brand, actorId: string): Partial<Brand> {
+        if ((brand.status ?? "approved") !== "approved") {
+            return {};
+        }
+
+        const currentTimestamp = new Date().toISOString();
+        const review: BrandReview = { from: "approved", to: "submitted", actorId, at: currentTimestamp };
+        return {
+            status: "submitted",
+            reviewnote: "",
+            reviewhistory: [...(brand.reviewhistory ?? []), review].slice(-this.MAX_REVIEW_HISTORY),
+            statusUpdatedAt: currentTimestamp
+        };
+    }
+
+    private static recordResubmission(brandId: string, actorId: string, context: ClientContext): void {
+        AuditService.record("brand.status_change", {
+            actorId,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { from: "approved", to: "submitted", reason: "edited" }
+        });
+    }
+
+    // Used by product writes, which change what an approved brand shows publicly
+    static async resubmitApprovedBrand(brand: Brand, actorId: string, context: ClientContext = {}): Promise<Brand> {
+        const resubmission = this.getResubmission(brand, actorId);
+        if (!resubmission.status) {
+            return brand;
+        }
+
+        const updatedBrand = await this.saveBrandChanges(brand, resubmission);
+        this.recordResubmission(brand.brandid, actorId, context);
+        return updatedBrand;
+    }
+
+    static async updateBrand(brandId: string, actor: { id: string; role: Role }, body: Partial<RequestBrand>, context: ClientContext = {}): Promise<Brand> {
+        const fields = this.validateBrandFields(body, false);
+        if (Object.keys(fields).length === 0) {
+            throw new AppError("No brand fields to update", 400, "NO_CHANGES");
+        }
+
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        await BrandMemberService.assertBrandRole(brand, actor, "editor");
+
+        const { logo, ...brandFields } = fields;
+        const resubmission = this.getResubmission(brand, actor.id);
+        const updatedBrand = await this.saveBrandChanges(brand, {
+            ...brandFields,
+            ...(logo !== undefined ? { logourl: logo } : {}),
+            ...resubmission
+        });
+        if (resubmission.status) {
+            this.recordResubmission(brandId, actor.id, context);
+        }
+
+        AuditService.record("brand.update", {
+            actorId: actor.id,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { fields: Object.keys(fields) }
+        });
+
+        return updatedBrand;
+    }
+
+    // Store an uploaded logo without its metadata and point the brand at it
+    static async updateBrandLogo(brandId: string, actor: { id: string; role: Role }, file: { buffer: Buffer }, context: ClientContext = {}): Promise<Brand> {
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        await BrandMemberService.assertBrandRole(brand, actor, "editor");
+
+        const image = ImageService.sanitize(file.buffer);
+        const logourl = await StorageService.save(
+            `brands/${brandId}/logo-${Date.now().toString(36)}.${image.extension}`,
+            image.data,
+            image.contentType
+        );
+
+        const resubmission = this.getResubmission(brand, actor.id);
+        const updatedBrand = await this.saveBrandChanges(brand, { logourl, ...resubmission });
+        if (resubmission.status) {
+            this.recordResubmission(brandId, actor.id, context);
+        }
+
+        StorageService.deleteByUrl(brand.logourl).catch(error => {
+            console.error("Old brand logo cleanup error:", error);
+        });
+
+        AuditService.record("brand.update_logo", {
+            actorId: actor.id,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { contentType: image.contentType, size: image.data.length }
+        });
+
+        return updatedBrand;
+    }
+
+    // Move a brand to a new status, keep the review trail and notify the owner
+    private static async changeBrandStatus(brand: Brand, status: BrandStatus, actorId: string, note: string | undefined, context: ClientContext): Promise<Brand> {
+        const currentStatus = brand.status ?? "approved";
+        if (!this.STATUS_TRANSITIONS[currentStatus].includes(status)) {
+            throw new AppError(`A ${currentStatus} brand cannot be moved to ${status}`, 409, "INVALID_BRAND_STATUS");
+        }
+
+        const currentTimestamp = new Date().toISOString();
+        const review: BrandReview = { from: currentStatus, to: status, ...(note ? { note } : {}), actorId, at: currentTimestamp };
+        const updatedBrand = await this.saveBrandChanges(brand, {
+            status,
+            reviewnote: note ?? "",
+            reviewhistory: [...(brand.reviewhistory ?? []), review].slice(-this.MAX_REVIEW_HISTORY),
+            statusUpdatedAt: currentTimestamp
+        });
+
+        const owner = await CacheService.getUser(brand.ownerid);
+        if (owner?.email) {
+            EmailService.sendBrandStatusEmail(owner.email, brand.name, status, note).catch(error => {
+                console.error("Brand status email error:", error);
+            });
+        }
+
+        AuditService.record("brand.status_change", {
+            actorId,
+            targetId: brand.brandid,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { from: currentStatus, to: status }
+        });
+
+        return updatedBrand;
+    }
+
+    // Owners and editors send a draft or rejected brand to the moderation queue
+    static async submitBrand(brandId: string, actor: { id: string; role: Role }, context: ClientContext = {}): Promise<Brand> {
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        await BrandMemberService.assertBrandRole(brand, actor, "editor");
+        return this.changeBrandStatus(brand, "submitted", actor.id, undefined, context);
+    }
+
+    // Reviewers approve, reject, suspend or reinstate a brand, explaining rejections and suspensions
+    static async reviewBrand(brandId: string, reviewerId: string, status: any, note: any, context: ClientContext = {}): Promise<Brand> {
+        if (!this.REVIEW_STATUSES.includes(status)) {
+            throw new AppError(`Status must be one of: ${this.REVIEW_STATUSES.join(", ")}`, 400, "INVALID_BRAND_STATUS");
+        }
+        const reviewNote = typeof note === "string" ? note.trim() : "";
+        if (reviewNote.length > this.MAX_REVIEW_NOTE_LENGTH) {
+            throw new AppError(`Reviewer note must be at most ${this.MAX_REVIEW_NOTE_LENGTH} characters`, 400, "INVALID_REVIEW_NOTE");
+        }
+        if (!reviewNote && status !== "approved") {
+            throw new AppError("A reviewer note is required when rejecting or suspending a brand", 400, "INVALID_REVIEW_NOTE");
+        }
+
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        if (brand.ownerid === reviewerId) {
+            throw new AppError("You cannot review your own brand", 403, "FORBIDDEN");
+        }
+        return this.changeBrandStatus(brand, status, reviewerId, reviewNote || undefined, context);
+    }
+
+    // Moderation queue, oldest status change first
+    static async getBrandsByStatus(status: any, page: number = 1, limit: number = 10): Promise<{ brands: Brand[]; total: number; totalPages: number; currentPage: number }> {
+        if (!Object.prototype.hasOwnProperty.call(this.STATUS_TRANSITIONS, status)) {
+            throw new AppError(`Status must be one of: ${Object.keys(this.STATUS_TRANSITIONS).join(", ")}`, 400, "INVALID_BRAND_STATUS");
+        }
+
+        const { items, total } = await DBService.findPaginatedWithFilter('brands', { status }, page, limit, { statusUpdatedAt: 1, brandid: 1 });
+        return {
+            brands: items.map(({ _id, ...brand }) => brand as unknown as Brand),
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page
+        };
+    }
+
+    // The owner's brand whatever its status, with the latest reviewer note
+    static async getOwnBrand(userId: string): Promise<Brand> {
+        const user = await CacheService.getUser(userId);
+        const brandId = user?.brandid || user?.brand?.brandid;
+        const brand = brandId ? await CacheService.getBrand(brandId) : null;
+        if (!brand) {
+            throw new AppError("You do not own a brand", 404, "BRAND_NOT_FOUND");
+        }
+        return brand;
+    }
+
+    private static getTransferExpiryDays(): number {
+        return Number(process.env.BRAND_TRANSFER_EXPIRY_DAYS || '7');
+    }
+
+    private static async getPendingTransfer(brandId: string): Promise<BrandOwnershipTransfer | null> {
+        const transfers = await DBService.findByFilter('brand_transfers', { brandId }, 1);
+        const transfer = transfers[0] as unknown as BrandOwnershipTransfer | undefined;
+        if (!transfer || new Date(transfer.expiresAt).getTime() <= Date.now()) {
+            return null;
+        }
+        return transfer;
+    }
+
+    // Make sure a user can take over a brand, they may own only one
+    private static async assertCanOwnBrand(userId: string): Promise<void> {
+        const user = await CacheService.getUser(userId);
+        if (!user || user.disabled || user.suspended) {
+            throw new AppError("This user cannot own a brand", 400, "INVALID_TRANSFER_TARGET");
+        }
+        const ownedBrandId = user.brandid || user.brand?.brandid;
+        const ownedBrand = ownedBrandId
+            ? await CacheService.getBrand(ownedBrandId)
+            : await DBService.findByField('brands', 'ownerid', userId);
+        if (ownedBrand) {
+            throw new AppError("This user already owns a brand", 409, "BRAND_ALREADY_EXISTS");
+        }
+    }
+
+    // The owner offers the brand to one of its members, who has to accept it
+    static async requestOwnershipTransfer(brandId: string, ownerId: string, toUserId: any, context: ClientContext = {}): Promise<BrandOwnershipTransfer> {
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand || brand.ownerid !== ownerId) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        if (typeof toUserId !== "string" || !toUserId || toUserId === ownerId) {
+            throw new AppError("Choose another member of the brand as the new owner", 400, "INVALID_TRANSFER_TARGET");
+        }
+        if (!await BrandMemberService.getMembership(brandId, toUserId)) {
+            throw new AppError("Ownership can only be transferred to a member of the brand", 400, "INVALID_TRANSFER_TARGET");
+        }
+        await this.assertCanOwnBrand(toUserId);
+
+        const now = new Date();
+        const transfer: BrandOwnershipTransfer = {
+            brandId,
+            fromUserId: ownerId,
+            toUserId,
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + this.getTransferExpiryDays() * 24 * 60 * 60 * 1000).toISOString()
+        };
+        // A brand has at most one pending transfer, a new request replaces the old one
+        await DBService.deleteMany('brand_transfers', { brandId });
+        await DBService.insertData('brand_transfers', { ...transfer });
+
+        const newOwner = await CacheService.getUser(toUserId);
+        if (newOwner?.email) {
+            EmailService.sendBrandTransferRequestEmail(newOwner.email, brand.name, transfer.expiresAt).catch(error => {
+                console.error("Brand transfer request email error:", error);
+            });
+        }
+
+        AuditService.record("brand.transfer_request", {
+            actorId: ownerId,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { toUserId }
+        });
+
+        return transfer;
+    }
+
+    // The invited member confirms the transfer; the previous owner stays on as an editor
+    static async acceptOwnershipTransfer(brandId: string, userId: string, context: ClientContext = {}): Promise<Brand> {
+        const transfer = await this.getPendingTransfer(brandId);
+        if (!transfer || transfer.toUserId !== userId) {
+            throw new AppError("No pending ownership transfer for you on this brand", 404, "TRANSFER_NOT_FOUND");
+        }
+
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand || brand.ownerid !== transfer.fromUserId) {
+            await DBService.deleteMany('brand_transfers', { brandId });
+            throw new AppError("This ownership transfer is no longer valid", 409, "TRANSFER_NOT_FOUND");
+        }
+
+        // Guards against creating a brand while this one is being taken over
+        const isTransferAllowed = await CacheService.acquireThrottle("brand_create", userId, 10);
+        if (!isTransferAllowed) {
+            throw new AppError("A brand is already being created for this account", 409, "BRAND_ALREADY_EXISTS");
+        }
+        await this.assertCanOwnBrand(userId);
+
+        // Claim the transfer so it is applied once
+        const claim = await DBService.deleteMany('brand_transfers', { brandId, toUserId: userId });
+        if (claim.deletedCount === 0) {
+            throw new AppError("No pending ownership transfer for you on this brand", 404, "TRANSFER_NOT_FOUND");
+        }
+
+        const previousOwnerId = brand.ownerid;
+        const updatedBrand = await this.saveBrandChanges(brand, { ownerid: userId });
+
+        const [previousOwner, newOwner] = await Promise.all([
+            CacheService.getUser(previousOwnerId),
+            CacheService.getUser(userId)
+        ]);
+        const ownerUpdates = [
+            previousOwner ? { ...previousOwner, brandid: "", brand: {} as Brand } : null,
+            newOwner ? { ...newOwner, brandid: brandId, brand: updatedBrand } : null
+        ].filter(owner => owner !== null);
+        await Promise.all(ownerUpdates.map(owner => CacheService.setUser(owner.userId, owner)));
+        Promise.allSettled(ownerUpdates.map(owner => KafkaService.sendUserUpdateEvent(owner.userId, owner))).catch(error => {
+            console.error("Background operations error:", error);
+        });
 
-                const brandId = `BRD${paddedNum}${alphaPart}`;
+        await BrandMemberService.deleteMembership(brandId, userId);
+        await BrandMemberService.addMember(brandId, previousOwnerId, "editor", userId);
 
-                // Check if brandId already exists in cache
-                const existingBrand = await CacheService.getBrand(brandId);
-                if (!existingBrand) {
-                    return brandId;
+        for (const [owner, isNewOwner] of [[newOwner, true], [previousOwner, false]] as const) {
+            if (owner?.email) {
+                EmailService.sendBrandOwnershipTransferredEmail(owner.email, brand.name, isNewOwner).catch(error => {
+                    console.error("Brand ownership email error:", error);
+                });
+            }
+        }
+
+        AuditService.record("brand.transfer_accept", {
+            actorId: userId,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { fromUserId: previousOwnerId }
+        });
+
+        return updatedBrand;
+    }
+
+    // The owner can withdraw a pending transfer and the new owner can decline it
+    static async cancelOwnershipTransfer(brandId: string, userId: string, context: ClientContext = {}): Promise<void> {
+        const transfer = await this.getPendingTransfer(brandId);
+        if (!transfer || (transfer.fromUserId !== userId && transfer.toUserId !== userId)) {
+            throw new AppError("No pending ownership transfer on this brand", 404, "TRANSFER_NOT_FOUND");
+        }
+        await DBService.deleteMany('brand_transfers', { brandId });
+
+        AuditService.record("brand.transfer_cancel", {
+            actorId: userId,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success"
+        });
+    }
+
+    static async deleteBrand(brandId: string, actor: { id: string; role: Role }, context: ClientContext = {}): Promise<void> {
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        await BrandMemberService.assertBrandRole(brand, actor, "owner");
+
+        const result = await this.deleteBrandById(brandId, actor.id, context);
+        if (!result.success) {
+            throw new Error(result.message);
+        }
+    }
+
+
+    // Validate raw query string values into a search query
+    private static parseSearchQuery(raw: Record<string, any>): BrandSearchQuery {
+        const query: BrandSearchQuery = { sort: "-createdAt", limit: this.DEFAULT_SEARCH_LIMIT };
+
+        if (raw.q !== undefined) {
+            const q = String(raw.q).trim();
+            if (q.length > this.MAX_SEARCH_TEXT_LENGTH) {
+                throw new AppError(`Search text must be at most ${this.MAX_SEARCH_TEXT_LENGTH} characters`, 400, "INVALID_SEARCH");
+            }
+            if (q) {
+                query.q = q;
+                query.sort = "relevance";
+            }
+        }
+
+        if (raw.states !== undefined) {
+            // Accept both ?states=A,B and ?states=A&states=B
+            const states = [raw.states].flat().flatMap((value: any) => String(value).split(","))
+                .map(state => state.trim())
+                .filter(Boolean);
+            if (states.length > this.MAX_SEARCH_STATES) {
+                throw new AppError(`At most ${this.MAX_SEARCH_STATES} states can be searched at once`, 400, "INVALID_SEARCH");
+            }
+            const { codes, invalid } = ReferenceService.normalizeUsStates(states);
+            if (invalid.length > 0) {
+                throw new AppError(`Unknown states: ${invalid.join(", ")}`, 400, "INVALID_SEARCH");
+            }
+            if (codes.length > 0) {
+                query.states = codes;
+            }
+        }
+
+        for (const bound of ["yearfrom", "yearto"] as const) {
+            if (raw[bound] !== undefined) {
+                const year = String(raw[bound]).trim();
+                if (!/^\d{4}$/.test(year)) {
+                    throw new AppError(`${bound} must be a four-digit year`, 400, "INVALID_SEARCH");
                 }
+                query[bound] = year;
+            }
+        }
+        if (query.yearfrom && query.yearto && query.yearfrom > query.yearto) {
+            throw new AppError("yearfrom must not be after yearto", 400, "INVALID_SEARCH");
+        }
 
-                attempts++;
+        if (raw.sort !== undefined) {
+            const sort = String(raw.sort);
+            if (!Object.prototype.hasOwnProperty.call(this.SEARCH_SORTS, sort)) {
+                throw new AppError(`sort must be one of: ${Object.keys(this.SEARCH_SORTS).join(", ")}`, 400, "INVALID_SEARCH");
             }
+            if (sort === "relevance" && !query.q) {
+                throw new AppError("Sorting by relevance requires search text", 400, "INVALID_SEARCH");
+            }
+            query.sort = sort as BrandSearchSort;
+        }
 
-            // Fallback: use timestamp if all attempts failed
-            const timestamp = Date.now().toString().slice(-6);
-            return `BRD${timestamp}`;
-        } catch (error) {
-            console.error('Error generating unique brandId:', error);
-            // Emergency fallback
-            const emergency = Date.now().toString().slice(-9);
-            return `BRD${emergency}`;
+        if (raw.limit !== undefined) {
+            const limit = Number(raw.limit);
+            if (!Number.isInteger(limit) || limit < 1 || limit > this.MAX_SEARCH_LIMIT) {
+                throw new AppError(`limit must be between 1 and ${this.MAX_SEARCH_LIMIT}`, 400, "INVALID_SEARCH");
+            }
+            query.limit = limit;
+        }
+
+        if (raw.cursor !== undefined && String(raw.cursor)) {
+            query.cursor = String(raw.cursor);
+        }
+
+        return query;
+    }
+
+    private static encodeSearchCursor(sort: BrandSearchSort, brand: any): string {
+        const { field } = this.SEARCH_SORTS[sort];
+        return Buffer.from(JSON.stringify({ s: sort, v: brand[field] ?? null, id: brand.brandid })).toString("base64url");
+    }
+
+    // Filter selecting the brands after the cursor position; brands missing the sort field sort before all others
+    private static buildCursorFilter(query: BrandSearchQuery): any {
+        let cursor: any;
+        try {
+            cursor = JSON.parse(Buffer.from(query.cursor!, "base64url").toString("utf8"));
+        } catch {
+            cursor = null;
+        }
+        if (!cursor || cursor.s !== query.sort || typeof cursor.id !== "string" || (cursor.v !== null && !["string", "number"].includes(typeof cursor.v))) {
+            throw new AppError("Invalid search cursor", 400, "INVALID_CURSOR");
+        }
+
+        const { field, direction } = this.SEARCH_SORTS[query.sort];
+        const after = direction === 1 ? "$gt" : "$lt";
+        const tieBreak = { [field]: cursor.v, brandid: { [after]: cursor.id } };
+
+        if (cursor.v === null) {
+            return direction === 1
+                ? { $or: [tieBreak, { [field]: { $ne: null } }] }
+                : tieBreak;
+        }
+        return {
+            $or: [
+                { [field]: { [after]: cursor.v } },
+                tieBreak,
+                ...(direction === -1 ? [{ [field]: null }] : [])
+            ]
+        };
+    }
+
+    // Search brands by text, distribution states and founding year with cursor pagination
+    static async searchBrands(raw: Record<string, any>): Promise<BrandSearchResult> {
+        const query = this.parseSearchQuery(raw);
+
+        const queryHash = createHash("sha256").update(JSON.stringify(query)).digest("hex");
+        const cached = await CacheService.getBrandSearch(queryHash);
+        if (cached) {
+            return cached;
         }
+
+        // Only approved brands are listed publicly
+        const filter: any = { status: "approved" };
+        if (query.q) {
+            filter.$text = { $search: query.q };
+        }
+        if (query.states) {
+            filter.distributionstates = { $in: query.states };
+        }
+        if (query.yearfrom || query.yearto) {
+            filter.yearfounded = {
+                ...(query.yearfrom ? { $gte: query.yearfrom } : {}),
+                ...(query.yearto ? { $lte: query.yearto } : {})
+            };
+        }
+
+        const { field, direction } = this.SEARCH_SORTS[query.sort];
+        const pipeline: any[] = [{ $match: filter }];
+        if (query.sort === "relevance") {
+            pipeline.push({ $addFields: { score: { $meta: "textScore" } } });
+        }
+        if (query.cursor) {
+            pipeline.push({ $match: this.buildCursorFilter(query) });
+        }
+        pipeline.push(
+            { $sort: { [field]: direction, brandid: direction } },
+            // One extra document tells whether another page exists
+            { $limit: query.limit + 1 },
+            { $project: { _id: 0, reviewnote: 0, reviewhistory: 0 } }
+        );
+
+        const collation = field === "name" && !query.q ? this.SEARCH_COLLATION : undefined;
+        const documents = await DBService.aggregate('brands', pipeline, collation);
+        const hasMore = documents.length > query.limit;
+        const page = documents.slice(0, query.limit);
+
+        const result: BrandSearchResult = {
+            brands: page.map(({ score, ...brand }) => brand as unknown as Brand),
+            nextCursor: hasMore ? this.encodeSearchCursor(query.sort, page[page.length - 1]) : null,
+            hasMore
+        };
+
+        await CacheService.setBrandSearch(queryHash, result);
+        return result;
+    }
+
+    // Rewrite free-form distribution states stored before the state catalogue to canonical codes
+    static async normalizeStoredDistributionStates(): Promise<number> {
+        const codes = ReferenceService.getUsStates().map(state => state.code);
+        const filter = { distributionstates: { $elemMatch: { $nin: codes } } };
+        let normalizedCount = 0;
+
+        // Unrecognized values leave distributionstates, so every pass shrinks the set of matching brands
+        for (let batch = await DBService.findByFilter('brands', filter, 500); batch.length > 0; batch = await DBService.findByFilter('brands', filter, 500)) {
+            for (const brand of batch) {
+                const { codes: distributionstates, invalid } = ReferenceService.normalizeUsStates(brand.distributionstates ?? []);
+                // Unrecognized values are kept aside on the brand and audited so they can be reviewed and restored
+                const unrecognizedStates = [...new Set([...(brand.unrecognizeddistributionstates ?? []), ...invalid])];
+                if (invalid.length > 0) {
+                    console.warn(`Moving unknown distribution states of brand ${brand.brandid} aside: ${invalid.join(", ")}`);
+                    AuditService.record("brand.distribution_states_normalize", {
+                        actorId: "system",
+                        targetId: brand.brandid,
+                        targetType: "brand",
+                        outcome: "success",
+                        metadata: { unrecognized: invalid }
+                    });
+                }
+                await DBService.updateById('brands', String(brand._id), {
+                    distributionstates,
+                    ...(unrecognizedStates.length > 0 ? { unrecognizeddistributionstates: unrecognizedStates } : {})
+                });
+                if (brand.brandid) {
+                    await CacheService.deleteBrand(brand.brandid);
+                }
+                normalizedCount++;
+            }
+        }
+
+        if (normalizedCount > 0) {
+            await CacheService.clearBrandListingCache();
+        }
+        return normalizedCount;
     }
 
     // Get all brands with pagination using cache service
@@ -67,7 +797,7 @@ class BrandService {
             const totalPages = Math.ceil(totalApprox / limit);
 
             return {
-                brands: brands as Brand[],
+                brands: (brands as Brand[]).map(brand => this.toPublicBrand(brand)),
                 total: brands.length,
                 totalPages,
                 currentPage: page
@@ -78,7 +808,7 @@ class BrandService {
         }
     }
 
-    // Get brand by ID using cache service
+    // Get a publicly listed brand by ID using cache service
     static async getBrandById(brandId: string): Promise<Brand | null> {
         try {
             if (!brandId) {
@@ -86,7 +816,10 @@ class BrandService {
             }
 
             const brand = await CacheService.getBrand(brandId);
-            return brand as Brand;
+            if (!brand || (brand.status ?? "approved") !== "approved") {
+                return null;
+            }
+            return this.toPublicBrand(brand);
         } catch (error) {
             console.error('Get brand by ID error:', error);
             return null;
@@ -94,7 +827,7 @@ class BrandService {
     }
 
     // Delete brand by ID with products cleanup
-    static async deleteBrandById(brandId: string): Promise<{ success: boolean; message: string }> {
+    static async deleteBrandById(brandId: string, actorId?: string, context: ClientContext = {}): Promise<{ success: boolean; message: string }> {
         try {
             if (!brandId) {
                 return {
@@ -118,11 +851,39 @@ class BrandService {
                 // Delete all brand products from cache
                 for (const product of brand.products) {
                     await CacheService.deleteProduct(product.productId );
+                    StorageService.deleteByUrl(product.imageurl).catch(error => {
+                        console.error("Product image cleanup error:", error);
+                    });
                 }
             }
 
-            // Delete brand from cache
+            // Delete brand from cache, the delete event removes it and its products from the DB
             await CacheService.deleteBrand(brandId);
+            await BrandMemberService.deleteBrandTeam(brandId);
+            StorageService.deleteByUrl(brand.logourl).catch(error => {
+                console.error("Brand logo cleanup error:", error);
+            });
+            KafkaService.sendBrandDeleteEvent(brandId).catch(error => {
+                console.error("Brand delete event error:", error);
+            });
+
+            // Unlink the brand from its owner
+            const owner = brand.ownerid ? await CacheService.getUser(brand.ownerid) : null;
+            if (owner) {
+                const updatedOwner = { ...owner, brandid: "", brand: {} as Brand };
+                await CacheService.setUser(owner.userId, updatedOwner);
+                KafkaService.sendUserUpdateEvent(owner.userId, updatedOwner).catch(error => {
+                    console.error("Brand owner update event error:", error);
+                });
+            }
+
+            AuditService.record("brand.delete", {
+                actorId: actorId ?? brand.ownerid,
+                targetId: brandId,
+                targetType: "brand",
+                ...context,
+                outcome: "success"
+            });
 
             return {
                 success: true,
@@ -0,0 +1,333 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import CacheService from "../Cache/cacheService.js";
+import DBService from "../DB/dbService.js";
+import PermissionService from "../Permission/permissionService.js";
+import AuditService from "../Audit/auditService.js";
+import EmailService from "../Email/emailService.js";
+import UserService from "../User/userService.js";
+import AppError from "../../helpers/AppError.js";
+import { Brand } from "../../models/Brand.js";
+import { BrandInvitation, BrandInviteRole, BrandMember, BrandMemberRole } from "../../models/BrandMember.js";
+import { Role } from "../../models/Role.js";
+import { ClientContext } from "../../models/Session.js";
+
+/**
+ * Brand Teams
+ * - The brand's ownerid is its owner; editors and viewers are stored in brand_members
+ * - Editors can change the brand, viewers can see it whatever its review status
+ * - Invitations are emailed as `<invitationId>.<secret>` tokens; only a SHA-256 hash of the secret is stored
+ * - An invitation is accepted by the account registered with the invited email, new or existing
+ */
+class BrandMemberService {
+    private static readonly ROLE_RANK: Record<BrandMemberRole, number> = { viewer: 1, editor: 2, owner: 3 };
+    private static readonly INVITE_ROLES: BrandInviteRole[] = ["editor", "viewer"];
+    private static readonly MAX_MEMBERS = 50;
+    private static readonly MAX_PENDING_INVITATIONS = 50;
+
+    private static hashSecret(secret: string): string {
+        return createHash("sha256").update(secret).digest("hex");
+    }
+
+    private static getInvitationExpiryDays(): number {
+        return Number(process.env.BRAND_INVITATION_EXPIRY_DAYS || '7');
+    }
+
+    private static async getBrandOrThrow(brandId: string): Promise<Brand> {
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        return brand;
+    }
+
+    // Strip the token hash before an invitation leaves the service
+    private static toPublicInvitation(invitation: BrandInvitation) {
+        const { tokenHash, normalizedEmail, ...publicInvitation } = invitation;
+        return publicInvitation;
+    }
+
+    static async getMembership(brandId: string, userId: string): Promise<BrandMember | null> {
+        const membership = await DBService.findByFilter('brand_members', { brandId, userId }, 1);
+        return (membership[0] as unknown as BrandMember) ?? null;
+    }
+
+    static async getMemberRole(brand: Brand, userId: string): Promise<BrandMemberRole | null> {
+        if (brand.ownerid === userId) {
+            return "owner";
+        }
+        const membership = await this.getMembership(brand.brandid, userId);
+        return membership?.role ?? null;
+    }
+
+    // Require at least the given team role; moderators and admins act on any brand
+    static async assertBrandRole(brand: Brand, actor: { id: string; role: Role }, minimumRole: BrandMemberRole): Promise<void> {
+        if (PermissionService.hasPermission(actor.role, "brand:moderate")) {
+            return;
+        }
+        const memberRole = await this.getMemberRole(brand, actor.id);
+        if (!memberRole) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        if (this.ROLE_RANK[memberRole] < this.ROLE_RANK[minimumRole]) {
+            throw new AppError("You do not have permission to manage this brand", 403, "FORBIDDEN");
+        }
+    }
+
+    static async addMember(brandId: string, userId: string, role: BrandInviteRole, addedBy: string): Promise<BrandMember> {
+        const member: BrandMember = { brandId, userId, role, addedAt: new Date().toISOString(), addedBy };
+        await DBService.insertData('brand_members', { ...member });
+        return member;
+    }
+
+    static async deleteMembership(brandId: string, userId: string): Promise<void> {
+        await DBService.deleteMany('brand_members', { brandId, userId });
+    }
+
+    // Owner first, then members in the order they joined
+    static async listMembers(brandId: string, actor: { id: string; role: Role }) {
+        const brand = await this.getBrandOrThrow(brandId);
+        await this.assertBrandRole(brand, actor, "viewer");
+
+        const memberships = await DBService.findByFilter('brand_members', { brandId }, this.MAX_MEMBERS) as unknown as BrandMember[];
+        memberships.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+        const members = [{ userId: brand.ownerid, role: "owner" as BrandMemberRole, addedAt: brand.createdAt }, ...memberships];
+
+        return Promise.all(members.map(async member => {
+            const user = await CacheService.getUser(member.userId);
+            return {
+                userId: member.userId,
+                role: member.role,
+                addedAt: member.addedAt,
+                firstname: user?.firstname ?? null,
+                lastname: user?.lastname ?? null,
+                email: user?.email ?? null
+            };
+        }));
+    }
+
+    // Brands the user belongs to as an editor or viewer, whatever their review status
+    static async listMembershipsForUser(userId: string) {
+        const memberships = await DBService.findByFilter('brand_members', { userId }, this.MAX_MEMBERS) as unknown as BrandMember[];
+        const results = await Promise.all(memberships.map(async membership => {
+            const brand = await CacheService.getBrand(membership.brandId);
+            return brand ? { role: membership.role, addedAt: membership.addedAt, brand } : null;
+        }));
+        return results.filter(result => result !== null);
+    }
+
+    static async inviteMember(brandId: string, actor: { id: string; role: Role }, email: any, role: any, context: ClientContext = {}) {
+        const brand = await this.getBrandOrThrow(brandId);
+        await this.assertBrandRole(brand, actor, "owner");
+
+        if (!this.INVITE_ROLES.includes(role)) {
+            throw new AppError(`Role must be one of: ${this.INVITE_ROLES.join(", ")}`, 400, "INVALID_MEMBER_ROLE");
+        }
+        const trimmedEmail = typeof email === "string" ? email.trim() : "";
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail) || trimmedEmail.length > 254) {
+            throw new AppError("A valid email is required", 400, "INVALID_EMAIL");
+        }
+        const normalizedEmail = UserService.normalizeEmail(trimmedEmail);
+
+        const invitedUser = await UserService.findUserByEmail(normalizedEmail);
+        if (invitedUser && await this.getMemberRole(brand, invitedUser.userId)) {
+            throw new AppError("This user is already a member of the brand", 409, "ALREADY_A_MEMBER");
+        }
+
+        const [memberCount, pendingCount] = await Promise.all([
+            DBService.count('brand_members', { brandId }),
+            DBService.count('brand_invitations', { brandId, status: "pending" })
+        ]);
+        if (memberCount >= this.MAX_MEMBERS) {
+            throw new AppError(`A brand can have at most ${this.MAX_MEMBERS} members`, 400, "MEMBER_LIMIT_REACHED");
+        }
+        if (pendingCount >= this.MAX_PENDING_INVITATIONS) {
+            throw new AppError(`A brand can have at most ${this.MAX_PENDING_INVITATIONS} pending invitations`, 400, "INVITATION_LIMIT_REACHED");
+        }
+
+        // A new invitation replaces any pending one for the same email
+        await DBService.updateMany('brand_invitations', { brandId, normalizedEmail, status: "pending" }, { status: "revoked" });
+
+        const invitationId = randomBytes(8).toString("hex");
+        const secret = randomBytes(32).toString("base64url");
+        const now = new Date();
+        const invitation: BrandInvitation = {
+            invitationId,
+            brandId,
+            email: trimmedEmail,
+            normalizedEmail,
+            role,
+            invitedBy: actor.id,
+            tokenHash: this.hashSecret(secret),
+            status: "pending",
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + this.getInvitationExpiryDays() * 24 * 60 * 60 * 1000).toISOString()
+        };
+        await DBService.insertData('brand_invitations', { ...invitation });
+
+        EmailService.sendBrandInvitationEmail(trimmedEmail, brand.name, role, `${invitationId}.${secret}`).catch(error => {
+            console.error("Brand invitation email error:", error);
+        });
+
+        AuditService.record("brand.invite_member", {
+            actorId: actor.id,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { invitationId, role }
+        });
+
+        return this.toPublicInvitation(invitation);
+    }
+
+    static async listInvitations(brandId: string, actor: { id: string; role: Role }) {
+        const brand = await this.getBrandOrThrow(brandId);
+        await this.assertBrandRole(brand, actor, "owner");
+
+        const invitations = await DBService.findByFilter('brand_invitations', { brandId, status: "pending" }, this.MAX_PENDING_INVITATIONS) as unknown as BrandInvitation[];
+        return invitations.map(invitation => this.toPublicInvitation(invitation));
+    }
+
+    static async revokeInvitation(brandId: string, invitationId: string, actor: { id: string; role: Role }, context: ClientContext = {}): Promise<void> {
+        const brand = await this.getBrandOrThrow(brandId);
+        await this.assertBrandRole(brand, actor, "owner");
+
+        const result = await DBService.updateMany('brand_invitations', { brandId, invitationId, status: "pending" }, { status: "revoked" });
+        if (result.modifiedCount === 0) {
+            throw new AppError("Invitation not found", 404, "INVITATION_NOT_FOUND");
+        }
+
+        AuditService.record("brand.revoke_invitation", {
+            actorId: actor.id,
+            targetId: brandId,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { invitationId }
+        });
+    }
+
+    // Join a brand with an emailed invitation; the signed-in account must use the invited email
+    static async acceptInvitation(token: any, userId: string, context: ClientContext = {}) {
+        const [invitationId, secret] = typeof token === "string" ? token.split(".") : [];
+        const invitations = invitationId && secret
+            ? await DBService.findByFilter('brand_invitations', { invitationId }, 1) as unknown as BrandInvitation[]
+            : [];
+        const invitation = invitations[0];
+
+        const presentedHash = Buffer.from(this.hashSecret(secret ?? ""), "hex");
+        const storedHash = Buffer.from(invitation?.tokenHash ?? "", "hex");
+        if (!invitation || presentedHash.length !== storedHash.length || !timingSafeEqual(presentedHash, storedHash)) {
+            throw new AppError("Invitation link is not valid", 400, "INVALID_INVITATION");
+        }
+        if (invitation.status !== "pending" || new Date(invitation.expiresAt).getTime() <= Date.now()) {
+            throw new AppError("This invitation is no longer valid", 410, "INVITATION_EXPIRED");
+        }
+
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (UserService.normalizeEmail(user.email) !== invitation.normalizedEmail) {
+            throw new AppError("This invitation was sent to a different email address", 403, "INVITATION_EMAIL_MISMATCH");
+        }
+
+        const brand = await this.getBrandOrThrow(invitation.brandId);
+        if (await this.getMemberRole(brand, userId)) {
+            throw new AppError("You are already a member of this brand", 409, "ALREADY_A_MEMBER");
+        }
+
+        // Claim the invitation first so a replayed link cannot add the member twice
+        const acceptedAt = new Date().toISOString();
+        const claim = await DBService.updateMany('brand_invitations', { invitationId, status: "pending" }, { status: "accepted", acceptedBy: userId, acceptedAt });
+        if (claim.modifiedCount === 0) {
+            throw new AppError("This invitation is no longer valid", 410, "INVITATION_EXPIRED");
+        }
+
+        const member = await this.addMember(brand.brandid, userId, invitation.role, invitation.invitedBy);
+
+        AuditService.record("brand.accept_invitation", {
+            actorId: userId,
+            targetId: brand.brandid,
+            targetType: "brand",
+            ...context,
+            outcome: "success",
+            metadata: { invitationId, role: invitation.role }
+        });
+
+        return { ...member, brand };
+    }
+
+    static async updateMemberRole(brandId: string, memberId: string, role: any, actor: { id: string; role: Role }, context: ClientContext = {}): Promise<BrandMember> {
+        const brand = await this.getBrandOrThrow(brandId);
+        await this.assertBrandRole(brand, actor, "owner");
+
+        if (!this.INVITE_ROLES.includes(role)) {
+            throw new AppError(`Role must be one of: ${this.INVITE_ROLES.join(", ")}`, 400, "INVALID_MEMBER_ROLE");
+        }
+        const membership = await this.getMembership(brandId, memberId);
+        if (!membership) {
+            throw new AppError("Member not found", 404, "MEMBER_NOT_FOUND");
+        }
+
+        await DBService.updateMany('brand_members', { brandId, userId: memberId }, { role });
+
+        AuditService.record("brand.change_member_role", {
+            actorId: actor.id,
+            targetId: memberId,
+            targetType: "user",
+            ...context,
+            outcome: "success",
+            metadata: { brandId, from: membership.role, to: role }
+        });
+
+        return { ...membership, role };
+    }
+
+    // Owners remove members, members can leave on their own
+    static async removeMember(brandId: string, memberId: string, actor: { id: string; role: Role }, context: ClientContext = {}): Promise<void> {
+        const brand = await this.getBrandOrThrow(brandId);
+        if (memberId === brand.ownerid) {
+            throw new AppError("The owner cannot be removed, transfer ownership first", 400, "CANNOT_REMOVE_OWNER");
+        }
+        if (memberId !== actor.id) {
+            await this.assertBrandRole(brand, actor, "owner");
+        }
+
+        const membership = await this.getMembership(brandId, memberId);
+        if (!membership) {
+            throw new AppError("Member not found", 404, "MEMBER_NOT_FOUND");
+        }
+        await this.deleteMembership(brandId, memberId);
+        // A pending transfer to a removed member can no longer be accepted
+        await DBService.deleteMany('brand_transfers', { brandId, toUserId: memberId });
+
+        AuditService.record("brand.remove_member", {
+            actorId: actor.id,
+            targetId: memberId,
+            targetType: "user",
+            ...context,
+            outcome: "success",
+            metadata: { brandId }
+        });
+    }
+
+    // Drop the team, invitations and pending transfer of a deleted brand
+    static async deleteBrandTeam(brandId: string): Promise<void> {
+        await Promise.all([
+            DBService.deleteMany('brand_members', { brandId }),
+            DBService.updateMany('brand_invitations', { brandId, status: "pending" }, { status: "revoked" }),
+            DBService.deleteMany('brand_transfers', { brandId })
+        ]);
+    }
+
+    // Remove an erased user from every team and pending transfer
+    static async removeUserFromTeams(userId: string): Promise<void> {
+        await Promise.all([
+            DBService.deleteMany('brand_members', { userId }),
+            DBService.deleteMany('brand_transfers', { $or: [{ fromUserId: userId }, { toUserId: userId }] })
+        ]);
+    }
+}
+
+export default BrandMemberService;
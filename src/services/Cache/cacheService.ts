@@ -1,9 +1,13 @@
+import { randomBytes } from "crypto";
 import { createClient, RedisClientType } from "redis";
 import { encryptData, decryptData } from "securex";
 import { User } from "../../models/User.js";
-import { Brand } from "../../models/Brand.js";
+import { Brand, BrandSearchResult } from "../../models/Brand.js";
 import { Product } from "../../models/Product.js";
+import { Session } from "../../models/Session.js";
+import { ApiKey } from "../../models/ApiKey.js";
 import DBService from "../DB/dbService.js";
+import AppError from "../../helpers/AppError.js";
 
 /**
  * Cache Service with Military-Grade AES-256-GCM Encryption
@@ -14,6 +18,7 @@ import DBService from "../DB/dbService.js";
 class CacheService {
     private static redisClient: RedisClientType | null = null;
     private static readonly TTL = 7200; // 2 hours
+    private static readonly SEARCH_TTL = 300; // 5 minutes, search results are also cleared whenever brands change
     private static isConnecting = false;
     private static connectionPromise: Promise<RedisClientType> | null = null;
 
@@ -106,11 +111,18 @@ class CacheService {
             // Fallback: return brand without products
             return {
                 brandid: insertedBrand.brandid,
+                ownerid: insertedBrand.ownerid,
                 name: insertedBrand.name,
                 yearfounded: insertedBrand.yearfounded,
                 description: insertedBrand.description,
                 logourl: insertedBrand.logourl,
                 distributionstates: insertedBrand.distributionstates,
+                status: insertedBrand.status,
+                reviewnote: insertedBrand.reviewnote,
+                reviewhistory: insertedBrand.reviewhistory,
+                statusUpdatedAt: insertedBrand.statusUpdatedAt,
+                createdAt: insertedBrand.createdAt,
+                updatedAt: insertedBrand.updatedAt,
                 products: []
             };
         } catch (error) {
@@ -118,11 +130,18 @@ class CacheService {
             // Return brand without products on error
             return {
                 brandid: insertedBrand.brandid,
+                ownerid: insertedBrand.ownerid,
                 name: insertedBrand.name,
                 yearfounded: insertedBrand.yearfounded,
                 description: insertedBrand.description,
                 logourl: insertedBrand.logourl,
                 distributionstates: insertedBrand.distributionstates,
+                status: insertedBrand.status,
+                reviewnote: insertedBrand.reviewnote,
+                reviewhistory: insertedBrand.reviewhistory,
+                statusUpdatedAt: insertedBrand.statusUpdatedAt,
+                createdAt: insertedBrand.createdAt,
+                updatedAt: insertedBrand.updatedAt,
                 products: []
             };
         }
@@ -361,6 +380,437 @@ class CacheService {
         }
     }
 
+    // Session cache methods
+    static async getSession(sessionId: string): Promise<Session | null> {
+        if (!sessionId || typeof sessionId !== 'string') {
+            throw new Error('Invalid session ID provided');
+        }
+
+        const key = `session:${sessionId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const encryptedData = await client.get(key);
+
+            if (encryptedData) {
+                return await this.decryptCacheData(encryptedData);
+            }
+        } catch (error) {
+            console.error('Redis get session error:', error);
+        }
+
+        try {
+            const dbSession = await DBService.findByField('sessions', 'sessionId', sessionId);
+            if (dbSession) {
+                const sessionObj = dbSession as unknown as Session;
+                await this.setSession(sessionId, sessionObj);
+                return sessionObj;
+            }
+            return null;
+        } catch (error) {
+            console.error('Database get session error:', error);
+            throw new Error(`Failed to retrieve session with ID: ${sessionId}`);
+        }
+    }
+
+    static async setSession(sessionId: string, sessionData: Session): Promise<void> {
+        if (!sessionId || typeof sessionId !== 'string') {
+            throw new Error('Invalid session ID provided');
+        }
+
+        if (!sessionData || typeof sessionData !== 'object') {
+            throw new Error('Session data must be a valid Session object');
+        }
+
+        const key = `session:${sessionId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const encryptedData = await this.encryptCacheData(sessionData);
+            await client.setEx(key, this.TTL, encryptedData);
+        } catch (error) {
+            console.error('Redis set session error:', error);
+        }
+    }
+
+    static async deleteSession(sessionId: string): Promise<void> {
+        if (!sessionId || typeof sessionId !== 'string') {
+            throw new Error('Invalid session ID provided');
+        }
+
+        const key = `session:${sessionId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            await client.del(key);
+        } catch (error) {
+            console.error('Redis delete session error:', error);
+        }
+    }
+
+    // API key cache methods
+    static async getApiKey(keyId: string): Promise<ApiKey | null> {
+        if (!keyId || typeof keyId !== 'string') {
+            throw new Error('Invalid API key ID provided');
+        }
+
+        const key = `api_key:${keyId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const encryptedData = await client.get(key);
+
+            if (encryptedData) {
+                return await this.decryptCacheData(encryptedData);
+            }
+        } catch (error) {
+            console.error('Redis get API key error:', error);
+        }
+
+        try {
+            const dbApiKey = await DBService.findByField('api_keys', 'keyId', keyId);
+            if (dbApiKey) {
+                const apiKeyObj = dbApiKey as unknown as ApiKey;
+                await this.setApiKey(keyId, apiKeyObj);
+                return apiKeyObj;
+            }
+            return null;
+        } catch (error) {
+            console.error('Database get API key error:', error);
+            throw new Error(`Failed to retrieve API key with ID: ${keyId}`);
+        }
+    }
+
+    static async setApiKey(keyId: string, apiKeyData: ApiKey): Promise<void> {
+        if (!keyId || typeof keyId !== 'string') {
+            throw new Error('Invalid API key ID provided');
+        }
+
+        if (!apiKeyData || typeof apiKeyData !== 'object') {
+            throw new Error('API key data must be a valid ApiKey object');
+        }
+
+        const key = `api_key:${keyId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const encryptedData = await this.encryptCacheData(apiKeyData);
+            await client.setEx(key, this.TTL, encryptedData);
+        } catch (error) {
+            console.error('Redis set API key error:', error);
+        }
+    }
+
+    // Token version cache methods - falls back to the version stored on the user
+    static async getTokenVersion(userId: string): Promise<number | null> {
+        if (!userId || typeof userId !== 'string') {
+            throw new Error('Invalid user ID provided');
+        }
+
+        const key = `token_version:${userId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const version = await client.get(key);
+
+            if (version !== null) {
+                return parseInt(version);
+            }
+        } catch (error) {
+            console.error('Redis get token version error:', error);
+        }
+
+        const user = await this.getUser(userId);
+        if (!user) {
+            return null;
+        }
+
+        const version = user.tokenVersion ?? 0;
+        await this.setTokenVersion(userId, version);
+        return version;
+    }
+
+    static async setTokenVersion(userId: string, version: number): Promise<void> {
+        if (!userId || typeof userId !== 'string') {
+            throw new Error('Invalid user ID provided');
+        }
+
+        const key = `token_version:${userId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            await client.setEx(key, this.TTL, version.toString());
+        } catch (error) {
+            console.error('Redis set token version error:', error);
+        }
+    }
+
+    // Email index methods - map a normalized email to the owning user ID
+    static async getUserIdByEmail(normalizedEmail: string): Promise<string | null> {
+        if (!normalizedEmail || typeof normalizedEmail !== 'string') {
+            throw new Error('Invalid email provided');
+        }
+
+        const key = `user_email:${normalizedEmail}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const userId = await client.get(key);
+
+            if (userId) {
+                return userId;
+            }
+        } catch (error) {
+            console.error('Redis get user by email error:', error);
+        }
+
+        try {
+            const dbUser = await DBService.findByField('users', 'normalizedEmail', normalizedEmail);
+            if (!dbUser) {
+                return null;
+            }
+
+            try {
+                const client = await this.getRedisClient();
+                // No expiry: this key doubles as the sign-up claim and must outlive the cache TTL
+                await client.set(key, dbUser.userId);
+            } catch (cacheError) {
+                console.error('Redis cache set error for user email:', cacheError);
+            }
+
+            return dbUser.userId;
+        } catch (error) {
+            console.error('Database get user by email error:', error);
+            throw new Error(`Failed to look up user by email`);
+        }
+    }
+
+    // Reserve an email for a user, returns false when another user already holds it
+    static async claimEmail(normalizedEmail: string, userId: string): Promise<boolean> {
+        if (!normalizedEmail || !userId) {
+            throw new Error('Invalid email or user ID provided');
+        }
+
+        const key = `user_email:${normalizedEmail}`;
+
+        // A persisted owner wins even if its Redis key was evicted
+        const persistedUser = await DBService.findByField('users', 'normalizedEmail', normalizedEmail);
+        if (persistedUser && persistedUser.userId !== userId) {
+            return false;
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            // Claims never expire, they are removed by releaseEmail when the address is freed
+            const result = await client.set(key, userId, { NX: true });
+            if (result === 'OK') {
+                return true;
+            }
+            return (await client.get(key)) === userId;
+        } catch (error) {
+            // Users reach Mongo asynchronously, so its unique index cannot stop a duplicate account in time
+            console.error('Redis claim email error:', error);
+            throw new AppError('Email addresses cannot be reserved right now, please try again later', 503, 'SERVICE_UNAVAILABLE');
+        }
+    }
+
+    static async releaseEmail(normalizedEmail: string, userId: string): Promise<void> {
+        if (!normalizedEmail || !userId) {
+            throw new Error('Invalid email or user ID provided');
+        }
+
+        const key = `user_email:${normalizedEmail}`;
+
+        try {
+            const client = await this.getRedisClient();
+            if ((await client.get(key)) === userId) {
+                await client.del(key);
+            }
+        } catch (error) {
+            console.error('Redis release email error:', error);
+        }
+    }
+
+    // One-time token methods - returns false when the token was already consumed
+    static async markTokenConsumed(tokenId: string, ttlSeconds: number): Promise<boolean> {
+        if (!tokenId || typeof tokenId !== 'string') {
+            throw new Error('Invalid token ID provided');
+        }
+
+        const key = `consumed_token:${tokenId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const result = await client.set(key, new Date().toISOString(), { NX: true, EX: ttlSeconds });
+            return result === 'OK';
+        } catch (error) {
+            console.error('Redis mark token consumed error:', error);
+        }
+
+        try {
+            // The unique index on tokenId lets only one of two concurrent inserts through
+            await DBService.insertData('consumed_tokens', {
+                tokenId,
+                consumedAt: new Date().toISOString(),
+                expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+            });
+            return true;
+        } catch (error) {
+            if (String(error).includes('E11000')) {
+                return false;
+            }
+            console.error('Database mark token consumed error:', error);
+            throw new Error(`Failed to consume token with ID: ${tokenId}`);
+        }
+    }
+
+    // Throttle methods - returns false while the throttle window of the identifier is still open
+    static async acquireThrottle(scope: string, identifier: string, ttlSeconds: number): Promise<boolean> {
+        if (!scope || !identifier) {
+            throw new Error('Invalid throttle scope or identifier provided');
+        }
+
+        const key = `throttle:${scope}:${identifier}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const result = await client.set(key, new Date().toISOString(), { NX: true, EX: ttlSeconds });
+            return result === 'OK';
+        } catch (error) {
+            console.error('Redis acquire throttle error:', error);
+            return true;
+        }
+    }
+
+    // Lock methods - each holder gets a random token and only the holder can release the lock
+    static async acquireLock(scope: string, identifier: string, ttlSeconds: number): Promise<string | null> {
+        if (!scope || !identifier) {
+            throw new Error('Invalid lock scope or identifier provided');
+        }
+
+        const token = randomBytes(16).toString('hex');
+
+        try {
+            const client = await this.getRedisClient();
+            const result = await client.set(`lock:${scope}:${identifier}`, token, { NX: true, EX: ttlSeconds });
+            return result === 'OK' ? token : null;
+        } catch (error) {
+            console.error('Redis acquire lock error:', error);
+            return token;
+        }
+    }
+
+    // Compare-and-delete in one script, so a lock that expired and was taken over is left alone
+    static async releaseLock(scope: string, identifier: string, token: string): Promise<void> {
+        if (!scope || !identifier || !token) {
+            throw new Error('Invalid lock scope, identifier or token provided');
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            await client.eval(
+                "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0",
+                { keys: [`lock:${scope}:${identifier}`], arguments: [token] }
+            );
+        } catch (error) {
+            console.error('Redis release lock error:', error);
+        }
+    }
+
+    // Rate limit methods - sliding window log kept in a sorted set of hit timestamps
+    static async recordRateLimitHit(key: string, windowSeconds: number): Promise<{ count: number; retryAfterSeconds: number } | null> {
+        if (!key || typeof key !== 'string') {
+            throw new Error('Invalid rate limit key provided');
+        }
+
+        const redisKey = `rate_limit:${key}`;
+        const now = Date.now();
+        const windowMs = windowSeconds * 1000;
+
+        try {
+            const client = await this.getRedisClient();
+            const results = await client.multi()
+                .zRemRangeByScore(redisKey, 0, now - windowMs)
+                .zAdd(redisKey, { score: now, value: `${now}-${Math.random()}` })
+                .zCard(redisKey)
+                .zRangeWithScores(redisKey, 0, 0)
+                .pExpire(redisKey, windowMs)
+                .exec() as any[];
+
+            const count = Number(results[2]);
+            const oldestHit = results[3]?.[0]?.score ?? now;
+            const retryAfterSeconds = Math.max(1, Math.ceil((oldestHit + windowMs - now) / 1000));
+
+            return { count, retryAfterSeconds };
+        } catch (error) {
+            console.error('Redis record rate limit hit error:', error);
+            return null;
+        }
+    }
+
+    // Account lockout methods
+    static async incrementFailedLogins(userId: string, windowSeconds: number): Promise<number> {
+        if (!userId || typeof userId !== 'string') {
+            throw new Error('Invalid user ID provided');
+        }
+
+        const key = `failed_logins:${userId}`;
+
+        try {
+            const client = await this.getRedisClient();
+            const count = await client.incr(key);
+            if (count === 1) {
+                await client.expire(key, windowSeconds);
+            }
+            return count;
+        } catch (error) {
+            console.error('Redis increment failed logins error:', error);
+            return 0;
+        }
+    }
+
+    static async resetFailedLogins(userId: string): Promise<void> {
+        if (!userId || typeof userId !== 'string') {
+            throw new Error('Invalid user ID provided');
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            await client.del(`failed_logins:${userId}`);
+        } catch (error) {
+            console.error('Redis reset failed logins error:', error);
+        }
+    }
+
+    static async lockAccount(userId: string, lockSeconds: number): Promise<void> {
+        if (!userId || typeof userId !== 'string') {
+            throw new Error('Invalid user ID provided');
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            await client.setEx(`account_lock:${userId}`, lockSeconds, new Date().toISOString());
+        } catch (error) {
+            console.error('Redis lock account error:', error);
+        }
+    }
+
+    // Seconds left on an account lock, 0 when the account is not locked
+    static async getAccountLockRemaining(userId: string): Promise<number> {
+        if (!userId || typeof userId !== 'string') {
+            throw new Error('Invalid user ID provided');
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            const ttl = await client.ttl(`account_lock:${userId}`);
+            return ttl > 0 ? ttl : 0;
+        } catch (error) {
+            console.error('Redis get account lock error:', error);
+            return 0;
+        }
+    }
+
     // Paginated cache methods
     static async getAllUsers(page: number = 1, limit: number = 10): Promise<User[]> {
         if (page < 1 || limit < 1 || limit > 100) {
@@ -459,8 +909,8 @@ class CacheService {
         }
 
         try {
-            // Use DBService for paginated data instead of direct DB access
-            const dbBrands = await DBService.findPaginated('brands', page, limit);
+            // Only approved brands are listed publicly
+            const { items: dbBrands } = await DBService.findPaginatedWithFilter('brands', { status: 'approved' }, page, limit);
 
             if (dbBrands && dbBrands.length > 0) {
                 try {
@@ -479,8 +929,66 @@ class CacheService {
         }
     }
 
+    // Brand search methods - results are cached briefly under a hash of the normalized query
+    static async getBrandSearch(queryHash: string): Promise<BrandSearchResult | null> {
+        if (!queryHash || typeof queryHash !== 'string') {
+            throw new Error('Invalid brand search key provided');
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            const encryptedData = await client.get(`brand_search:${queryHash}`);
+            return encryptedData ? await this.decryptCacheData(encryptedData) : null;
+        } catch (error) {
+            console.error('Redis get brand search error:', error);
+            return null;
+        }
+    }
+
+    static async setBrandSearch(queryHash: string, result: BrandSearchResult): Promise<void> {
+        if (!queryHash || typeof queryHash !== 'string') {
+            throw new Error('Invalid brand search key provided');
+        }
+
+        try {
+            const client = await this.getRedisClient();
+            const encryptedData = await this.encryptCacheData(result);
+            await client.setEx(`brand_search:${queryHash}`, this.SEARCH_TTL, encryptedData);
+        } catch (error) {
+            console.error('Redis set brand search error:', error);
+        }
+    }
+
+    // Drop cached brand listings and search results once brand changes reach the DB
+    static async clearBrandListingCache(): Promise<void> {
+        try {
+            const client = await this.getRedisClient();
+            for (const pattern of ['brand_search:*', 'all_brands:*']) {
+                const keys = await client.keys(pattern);
+                if (keys.length > 0) {
+                    await client.del(keys);
+                }
+            }
+        } catch (error) {
+            console.error('Error clearing brand listing cache:', error);
+        }
+    }
+
+    // Drop cached user pages, which embed each user's billing data
+    static async clearUserListingCache(): Promise<void> {
+        try {
+            const client = await this.getRedisClient();
+            const keys = await client.keys('all_users:*');
+            if (keys.length > 0) {
+                await client.del(keys);
+            }
+        } catch (error) {
+            console.error('Error clearing user listing cache:', error);
+        }
+    }
+
     // Utility methods
-    static async clearEntityCache(entityType: 'user' | 'product' | 'brand'): Promise<void> {
+    static async clearEntityCache(entityType: 'user' | 'product' | 'brand' | 'session'): Promise<void> {
         try {
             const client = await this.getRedisClient();
             const pattern = `${entityType}:*`;
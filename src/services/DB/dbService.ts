@@ -80,6 +80,42 @@ class DBService {
         }
     }
 
+    // Update the first document matching a filter, callers check matchedCount or modifiedCount
+    static async updateOneByFilter(collectionName: string, filter: any, updateData: any) {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const result = await collection.updateOne(filter, { $set: updateData });
+            return result;
+        } catch (error) {
+            throw new Error(`Update one by filter failed: ${error}`);
+        }
+    }
+
+    // Generic update of every document matching a filter
+    static async updateMany(collectionName: string, filter: any, updateData: any) {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const result = await collection.updateMany(filter, { $set: updateData });
+            return result;
+        } catch (error) {
+            throw new Error(`Update many failed: ${error}`);
+        }
+    }
+
+    // Generic find by filter with limit
+    static async findByFilter(collectionName: string, filter: any, limit: number = 100) {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const result = await collection.find(filter).limit(limit).toArray();
+            return result;
+        } catch (error) {
+            throw new Error(`Find by filter failed: ${error}`);
+        }
+    }
+
     // Generic delete by ID
     static async deleteById(collectionName: string, id: string) {
         try {
@@ -92,6 +128,30 @@ class DBService {
         }
     }
 
+    // Generic delete by field
+    static async deleteByField(collectionName: string, field: string, value: any) {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const result = await collection.deleteOne({ [field]: value });
+            return result;
+        } catch (error) {
+            throw new Error(`Delete by field failed: ${error}`);
+        }
+    }
+
+    // Generic delete of every document matching a filter
+    static async deleteMany(collectionName: string, filter: any) {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const result = await collection.deleteMany(filter);
+            return result;
+        } catch (error) {
+            throw new Error(`Delete many failed: ${error}`);
+        }
+    }
+
     // Bulk insert
     static async bulkInsert(collectionName: string, dataArray: any[]) {
         try {
@@ -134,11 +194,18 @@ class DBService {
                     // Return brand with populated products
                     return {
                         brandid: brand.brandid,
+                        ownerid: brand.ownerid,
                         name: brand.name,
                         yearfounded: brand.yearfounded,
                         description: brand.description,
                         logourl: brand.logourl,
                         distributionstates: brand.distributionstates,
+                        status: brand.status,
+                        reviewnote: brand.reviewnote,
+                        reviewhistory: brand.reviewhistory,
+                        statusUpdatedAt: brand.statusUpdatedAt,
+                        createdAt: brand.createdAt,
+                        updatedAt: brand.updatedAt,
                         products: productsDoc.productList
                     };
                 }
@@ -147,11 +214,18 @@ class DBService {
             // Return brand without products if no products doc
             return {
                 brandid: brand.brandid,
+                ownerid: brand.ownerid,
                 name: brand.name,
                 yearfounded: brand.yearfounded,
                 description: brand.description,
                 logourl: brand.logourl,
                 distributionstates: brand.distributionstates,
+                status: brand.status,
+                reviewnote: brand.reviewnote,
+                reviewhistory: brand.reviewhistory,
+                statusUpdatedAt: brand.statusUpdatedAt,
+                createdAt: brand.createdAt,
+                updatedAt: brand.updatedAt,
                 products: []
             };
         } catch (error) {
@@ -178,6 +252,139 @@ class DBService {
         }
     }
 
+    // Get paginated data matching a filter, sorted, together with the total count
+    static async findPaginatedWithFilter(collectionName: string, filter: any, page: number = 1, limit: number = 10, sort: any = { _id: -1 }) {
+        try {
+            if (page < 1 || limit < 1 || limit > 100) {
+                throw new Error('Invalid pagination parameters: page must be >= 1, limit must be 1-100');
+            }
+
+            const skip = (page - 1) * limit;
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const [items, total] = await Promise.all([
+                collection.find(filter).sort(sort).skip(skip).limit(limit).toArray(),
+                collection.countDocuments(filter)
+            ]);
+            return { items, total };
+        } catch (error) {
+            throw new Error(`Paginated find with filter failed: ${error}`);
+        }
+    }
+
+    // Run an aggregation pipeline, optionally with a collation for case-insensitive sorting
+    static async aggregate(collectionName: string, pipeline: any[], collation?: any) {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const collection = database.collection(collectionName);
+            const result = await collection.aggregate(pipeline, collation ? { collation } : {}).toArray();
+            return result;
+        } catch (error) {
+            throw new Error(`Aggregate failed: ${error}`);
+        }
+    }
+
+    // Create the indexes the services rely on, backfilling fields older documents lack
+    static async ensureIndexes() {
+        try {
+            const database = await DatabaseConfig.getDatabase();
+            const users = database.collection('users');
+
+            // Users created before the email index get their normalized email derived from the stored one
+            await users.updateMany(
+                { normalizedEmail: { $exists: false }, email: { $type: 'string' } },
+                [{ $set: { normalizedEmail: { $toLower: { $trim: { input: '$email' } } } } }]
+            );
+
+            // Brands published before moderation existed stay public
+            await database.collection('brands').updateMany(
+                { status: { $exists: false } },
+                { $set: { status: 'approved' } }
+            );
+
+            // Brands created before ownership was recorded get the user whose brandid points at them
+            const unownedBrands = await database.collection('brands').aggregate([
+                { $match: { ownerid: { $exists: false }, brandid: { $type: 'string' } } },
+                { $lookup: { from: 'users', localField: 'brandid', foreignField: 'brandid', as: 'owners' } },
+                { $match: { 'owners.0': { $exists: true } } },
+                { $project: { _id: 1, ownerid: { $arrayElemAt: ['$owners.userId', 0] } } }
+            ]).toArray();
+            if (unownedBrands.length > 0) {
+                await database.collection('brands').bulkWrite(unownedBrands.map(brand => ({
+                    updateOne: { filter: { _id: brand._id }, update: { $set: { ownerid: brand.ownerid } } }
+                })), { ordered: false });
+            }
+
+            // Brands without a products document reference keep their products under their brandid
+            await database.collection('brands').updateMany(
+                { productsdocid: { $exists: false }, brandid: { $type: 'string' } },
+                [{ $set: { productsdocid: '$brandid' } }]
+            );
+
+            await Promise.all([
+                users.createIndex({ normalizedEmail: 1 }, {
+                    unique: true,
+                    partialFilterExpression: { normalizedEmail: { $type: 'string' } },
+                    name: 'users_normalized_email_unique'
+                }),
+                users.createIndex({ userId: 1 }, { unique: true, name: 'users_user_id_unique' }),
+                users.createIndex({ deletionScheduledFor: 1 }, {
+                    partialFilterExpression: { deletionScheduledFor: { $type: 'string' } },
+                    name: 'users_deletion_scheduled_for'
+                }),
+                database.collection('brands').createIndex({ brandid: 1 }, {
+                    unique: true,
+                    partialFilterExpression: { brandid: { $type: 'string' } },
+                    name: 'brands_brand_id_unique'
+                }),
+                database.collection('brands').createIndex({ ownerid: 1 }, {
+                    unique: true,
+                    partialFilterExpression: { ownerid: { $type: 'string' } },
+                    name: 'brands_owner_id_unique'
+                }),
+                // Brand search: text over name and description, filters on states and founding year, one index per sort
+                database.collection('brands').createIndex({ name: 'text', description: 'text' }, {
+                    weights: { name: 10, description: 1 },
+                    name: 'brands_text_search'
+                }),
+                database.collection('brands').createIndex({ status: 1, distributionstates: 1, yearfounded: 1 }, { name: 'brands_status_states_year' }),
+                database.collection('brands').createIndex({ status: 1, name: 1, brandid: 1 }, {
+                    collation: { locale: 'en', strength: 2 },
+                    name: 'brands_status_name_sort'
+                }),
+                database.collection('brands').createIndex({ status: 1, yearfounded: 1, brandid: 1 }, { name: 'brands_status_year_sort' }),
+                database.collection('brands').createIndex({ status: 1, createdAt: 1, brandid: 1 }, { name: 'brands_status_created_at_sort' }),
+                // Moderation queue, oldest status change first
+                database.collection('brands').createIndex({ status: 1, statusUpdatedAt: 1 }, { name: 'brands_status_queue' }),
+                database.collection('products').createIndex({ productdocid: 1 }, {
+                    unique: true,
+                    partialFilterExpression: { productdocid: { $type: 'string' } },
+                    name: 'products_doc_id_unique'
+                }),
+                database.collection('products').createIndex({ 'productList.productId': 1 }, {
+                    unique: true,
+                    partialFilterExpression: { 'productList.productId': { $type: 'string' } },
+                    name: 'products_product_id_unique'
+                }),
+                database.collection('brand_members').createIndex({ brandId: 1, userId: 1 }, { unique: true, name: 'brand_members_brand_user_unique' }),
+                database.collection('brand_members').createIndex({ userId: 1 }, { name: 'brand_members_user_id' }),
+                database.collection('brand_invitations').createIndex({ invitationId: 1 }, { unique: true, name: 'brand_invitations_id_unique' }),
+                database.collection('brand_invitations').createIndex({ brandId: 1, status: 1 }, { name: 'brand_invitations_brand_status' }),
+                database.collection('brand_transfers').createIndex({ brandId: 1 }, { unique: true, name: 'brand_transfers_brand_id_unique' }),
+                database.collection('identities').createIndex({ ssnHash: 1 }, { unique: true, name: 'identities_ssn_hash_unique' }),
+                database.collection('identities').createIndex({ userId: 1 }, { unique: true, name: 'identities_user_id_unique' }),
+                database.collection('billing_vault').createIndex({ token: 1 }, { unique: true, name: 'billing_vault_token_unique' }),
+                database.collection('consumed_tokens').createIndex({ tokenId: 1 }, { unique: true, name: 'consumed_tokens_token_id_unique' }),
+                database.collection('consumed_tokens').createIndex({ expiresAt: 1 }, {
+                    expireAfterSeconds: 0,
+                    name: 'consumed_tokens_expiry'
+                })
+            ]);
+        } catch (error) {
+            throw new Error(`Ensure indexes failed: ${error}`);
+        }
+    }
+
     // Get paginated data with proper limit and skip
     static async findPaginated(collectionName: string, page: number = 1, limit: number = 10) {
         try {
@@ -1,6 +1,8 @@
 import { sign, verify } from "securex";
+import { randomUUID } from "crypto";
 import { Transporter } from "nodemailer";
 import nodemailer from "nodemailer";
+import { BrandStatus } from "../../models/Brand.js";
 
 class EmailService {
     private static transporter: Transporter;
@@ -40,6 +42,123 @@ class EmailService {
         return EmailService.transporter;
     }
 
+    // Escape user-provided text before it is placed in an email
+    private static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+
+    // Shared layout for transactional emails, matching the verification and reset templates
+    private static buildEmailTemplate(title: string, message: string, options: { actionUrl?: string; actionLabel?: string; notice?: string } = {}): string {
+        const { actionUrl, actionLabel, notice } = options;
+        const actionHtml = actionUrl ? `
+                    <div class="button-container">
+                        <a href="${actionUrl}" class="action-btn">${actionLabel ?? "Open"}</a>
+                    </div>
+                    
+                    <div class="divider"></div>
+                    
+                    <div class="alt-method">
+                        <h4>Can't click the button?</h4>
+                        <p>Copy and paste this link in your browser:</p>
+                        <div class="link-box">${actionUrl}</div>
+                    </div>` : "";
+        const noticeHtml = notice ? `
+                    <div class="security">
+                        <h4>⚠️ Security Notice</h4>
+                        <p>${notice}</p>
+                    </div>` : "";
+
+        return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <style>
+                * { margin: 0; padding: 0; box-sizing: border-box; }
+                body { font-family: Arial, sans-serif; background: #0a0a0a; color: #ffffff; padding: 20px; }
+                .container { max-width: 600px; margin: 0 auto; background: #1a1a1a; border-radius: 8px; overflow: hidden; box-shadow: 0 10px 30px rgba(0,0,0,0.5); }
+                .header { background: linear-gradient(135deg, #2a2a2a 0%, #1a1a1a 100%); padding: 30px; text-align: center; border-bottom: 2px solid #333; }
+                .logo { font-size: 24px; font-weight: bold; color: #ffffff; margin-bottom: 5px; letter-spacing: 1px; }
+                .tagline { color: #888; font-size: 12px; text-transform: uppercase; letter-spacing: 2px; }
+                .content { padding: 40px 30px; }
+                .title { color: #ff7b00; font-size: 20px; margin-bottom: 20px; text-align: center; font-weight: 600; }
+                .message { color: #cccccc; font-size: 16px; line-height: 1.6; margin-bottom: 30px; text-align: center; }
+                .button-container { text-align: center; margin: 30px 0; }
+                .action-btn { display: inline-block; background: #ff7b00; color: #ffffff; text-decoration: none; padding: 14px 35px; border-radius: 25px; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; font-size: 14px; }
+                .divider { height: 1px; background: #333; margin: 30px 0; }
+                .alt-method { background: #252525; padding: 20px; border-radius: 6px; margin: 20px 0; }
+                .alt-method h4 { color: #ff7b00; font-size: 14px; margin-bottom: 10px; }
+                .alt-method p { color: #aaa; font-size: 13px; margin-bottom: 10px; }
+                .link-box { background: #1a1a1a; padding: 12px; border-radius: 4px; color: #66ccff; font-size: 11px; word-break: break-all; font-family: monospace; border: 1px solid #333; }
+                .security { background: #2a1a1a; border-left: 3px solid #ff4444; padding: 15px; margin: 20px 0; border-radius: 0 4px 4px 0; }
+                .security h4 { color: #ff4444; font-size: 13px; margin-bottom: 8px; }
+                .security p { color: #ccc; font-size: 12px; line-height: 1.4; }
+                .footer { background: #151515; padding: 25px; text-align: center; border-top: 1px solid #333; }
+                .footer p { color: #666; font-size: 12px; margin: 5px 0; }
+                @media (max-width: 600px) {
+                    .container { margin: 10px; }
+                    .content { padding: 25px 20px; }
+                    .action-btn { padding: 12px 25px; font-size: 13px; }
+                }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <div class="header">
+                    <div class="logo">TheBlacklistXYZ</div>
+                    <div class="tagline">Premium Platform</div>
+                </div>
+                
+                <div class="content">
+                    <div class="title">${title}</div>
+                    
+                    <div class="message">
+                        ${message}
+                    </div>
+                    ${actionHtml}
+                    ${noticeHtml}
+                </div>
+                
+                <div class="footer">
+                    <p><strong>TheBlacklistXYZ</strong></p>
+                    <p>© ${new Date().getFullYear()} All rights reserved.</p>
+                    <p>Need help? Contact our support team.</p>
+                </div>
+            </div>
+        </body>
+        </html>
+        `;
+    }
+
+    // Send an email through the pooled transporter with the same 5 second timeout as the other emails
+    private static async deliverEmail(to: string, subject: string, html: string): Promise<boolean> {
+        if (!process.env.SMTP_HOST || !process.env.SMTP_USERNAME || !process.env.SMTP_PASSWORD) {
+            throw new Error("SMTP configuration is missing. Please check SMTP_HOST, SMTP_USERNAME, and SMTP_PASSWORD environment variables");
+        }
+
+        const emailData = {
+            from: process.env.SMTP_FROM,
+            to,
+            subject,
+            html
+        };
+
+        const transporter = await EmailService.getTransporter();
+        const emailPromise = transporter.sendMail(emailData);
+        const timeoutPromise = new Promise((_, reject) => {
+            setTimeout(() => reject(new Error('Email sending timeout after 5 seconds')), 5000);
+        });
+
+        await Promise.race([emailPromise, timeoutPromise]);
+        return true;
+    }
+
     static async sendVerficationEmail(email: string, userId: string): Promise<any> {
         try {
             if (!email || !userId) {
@@ -311,6 +430,7 @@ class EmailService {
 
             const resetPasswordToken = await sign({
                 "type": "reset_password",
+                "tokenId": randomUUID(),
                 "userId": userId,
                 "email": email
             }, process.env.SECUREX_KEY as string, Number(process.env.RESET_PASSWORD_TOKEN_EXPIRY as string));
@@ -549,5 +669,235 @@ class EmailService {
         }
     }
 
+    static async sendEmailChangeConfirmationEmail(newEmail: string, userId: string): Promise<any> {
+        try {
+            if (!newEmail || !userId) {
+                throw new Error("Email and userId are required");
+            }
+
+            if (!process.env.SECUREX_KEY) {
+                throw new Error("SECUREX_KEY environment variable is missing");
+            }
+
+            if (!process.env.EMAIL_CHANGE_TOKEN_EXPIRY) {
+                throw new Error("EMAIL_CHANGE_TOKEN_EXPIRY environment variable is missing");
+            }
+
+            if (!process.env.FRONTEND_URL) {
+                throw new Error("FRONTEND_URL environment variable is missing");
+            }
+
+            if (!process.env.FRONTEND_CONFIRM_EMAIL_CHANGE_PATH) {
+                throw new Error("FRONTEND_CONFIRM_EMAIL_CHANGE_PATH environment variable is missing");
+            }
+
+            const emailChangeToken = await sign({
+                "type": "change_email",
+                "tokenId": randomUUID(),
+                "userId": userId,
+                "newEmail": newEmail
+            }, process.env.SECUREX_KEY as string, Number(process.env.EMAIL_CHANGE_TOKEN_EXPIRY as string));
+
+            const confirmUrl = `${process.env.FRONTEND_URL}${process.env.FRONTEND_CONFIRM_EMAIL_CHANGE_PATH}${emailChangeToken}`;
+            const emailHtml = EmailService.buildEmailTemplate(
+                "Confirm Your New Email",
+                "We received a request to change the email address of your TheBlacklistXYZ account to this address. Click the button below to confirm the change.",
+                {
+                    actionUrl: confirmUrl,
+                    actionLabel: "Confirm Email",
+                    notice: "If you didn't request this change, please ignore this email. Your account email will stay the same."
+                }
+            );
+
+            return await EmailService.deliverEmail(newEmail, "Confirm Your New Email - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending email change confirmation:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send email change confirmation: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendEmailChangedNoticeEmail(oldEmail: string, newEmail: string): Promise<any> {
+        try {
+            if (!oldEmail || !newEmail) {
+                throw new Error("Old and new email are required");
+            }
+
+            const emailHtml = EmailService.buildEmailTemplate(
+                "Your Email Was Changed",
+                `The email address of your TheBlacklistXYZ account was changed to ${EmailService.escapeHtml(newEmail)}. This address will no longer receive account emails.`,
+                {
+                    notice: "If you didn't make this change, contact our support team immediately to secure your account."
+                }
+            );
+
+            return await EmailService.deliverEmail(oldEmail, "Your Email Was Changed - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending email changed notice:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send email changed notice: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendAccountLockedEmail(email: string, lockMinutes: number): Promise<any> {
+        try {
+            if (!email) {
+                throw new Error("Email is required");
+            }
+
+            const emailHtml = EmailService.buildEmailTemplate(
+                "Account Temporarily Locked",
+                `We noticed several failed sign-in attempts on your TheBlacklistXYZ account, so we locked it for ${lockMinutes} minutes. You can sign in again once the lock expires.`,
+                {
+                    notice: "If these attempts weren't you, we recommend resetting your password once the lock expires."
+                }
+            );
+
+            return await EmailService.deliverEmail(email, "Account Temporarily Locked - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending account locked email:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send account locked email: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendAccountDeletionScheduledEmail(email: string, scheduledFor: string): Promise<any> {
+        try {
+            if (!email) {
+                throw new Error("Email is required");
+            }
+
+            const deletionDate = new Date(scheduledFor).toUTCString();
+            const emailHtml = EmailService.buildEmailTemplate(
+                "Account Deletion Scheduled",
+                `Your TheBlacklistXYZ account and all of its data will be permanently deleted on ${deletionDate}. You can cancel the deletion from your account settings until then.`,
+                {
+                    notice: "If you didn't request this, sign in and cancel the deletion, then change your password."
+                }
+            );
+
+            return await EmailService.deliverEmail(email, "Account Deletion Scheduled - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending account deletion email:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send account deletion email: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendBrandStatusEmail(email: string, brandName: string, status: BrandStatus, note?: string): Promise<any> {
+        try {
+            if (!email || !brandName) {
+                throw new Error("Email and brand name are required");
+            }
+
+            const safeName = EmailService.escapeHtml(brandName);
+            const messages: Record<BrandStatus, { title: string; message: string }> = {
+                draft: {
+                    title: "Brand Moved To Draft",
+                    message: `Your brand ${safeName} is a draft again. Submit it for review when it is ready to be published.`
+                },
+                submitted: {
+                    title: "Brand Submitted For Review",
+                    message: `We received your brand ${safeName} and our team will review it shortly. It will be listed publicly once approved.`
+                },
+                approved: {
+                    title: "Brand Approved",
+                    message: `Your brand ${safeName} has been approved and is now listed publicly on TheBlacklistXYZ.`
+                },
+                rejected: {
+                    title: "Brand Not Approved",
+                    message: `Your brand ${safeName} was not approved. Update it based on the reviewer's note and submit it again.`
+                },
+                suspended: {
+                    title: "Brand Suspended",
+                    message: `Your brand ${safeName} has been suspended and is no longer listed publicly.`
+                }
+            };
+
+            const { title, message } = messages[status];
+            const emailHtml = EmailService.buildEmailTemplate(title, message, {
+                ...(note ? { notice: `Reviewer note: ${EmailService.escapeHtml(note)}` } : {})
+            });
+
+            return await EmailService.deliverEmail(email, `${title} - TheBlacklistXYZ`, emailHtml);
+        } catch (error: any) {
+            console.error('Error sending brand status email:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send brand status email: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendBrandInvitationEmail(email: string, brandName: string, role: string, token: string): Promise<any> {
+        try {
+            if (!email || !brandName || !token) {
+                throw new Error("Email, brand name and token are required");
+            }
+
+            if (!process.env.FRONTEND_URL) {
+                throw new Error("FRONTEND_URL environment variable is missing");
+            }
+
+            if (!process.env.FRONTEND_BRAND_INVITATION_PATH) {
+                throw new Error("FRONTEND_BRAND_INVITATION_PATH environment variable is missing");
+            }
+
+            const invitationUrl = `${process.env.FRONTEND_URL}${process.env.FRONTEND_BRAND_INVITATION_PATH}${token}`;
+            const emailHtml = EmailService.buildEmailTemplate(
+                "You're Invited To A Brand Team",
+                `You have been invited to join the team of ${EmailService.escapeHtml(brandName)} on TheBlacklistXYZ as ${role === "editor" ? "an editor" : "a viewer"}. Sign in, or create an account with this email address, to accept the invitation.`,
+                {
+                    actionUrl: invitationUrl,
+                    actionLabel: "Accept Invitation",
+                    notice: "If you weren't expecting this invitation, you can ignore this email."
+                }
+            );
+
+            return await EmailService.deliverEmail(email, "You're Invited To A Brand Team - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending brand invitation email:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send brand invitation email: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendBrandTransferRequestEmail(email: string, brandName: string, expiresAt: string): Promise<any> {
+        try {
+            if (!email || !brandName) {
+                throw new Error("Email and brand name are required");
+            }
+
+            const emailHtml = EmailService.buildEmailTemplate(
+                "Brand Ownership Transfer",
+                `The owner of ${EmailService.escapeHtml(brandName)} wants to make you its new owner. Sign in to TheBlacklistXYZ to accept or decline before ${new Date(expiresAt).toUTCString()}.`,
+                {
+                    notice: "You can't own more than one brand. Accepting makes you responsible for this brand and its products."
+                }
+            );
+
+            return await EmailService.deliverEmail(email, "Brand Ownership Transfer - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending brand transfer request email:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send brand transfer request email: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
+    static async sendBrandOwnershipTransferredEmail(email: string, brandName: string, isNewOwner: boolean): Promise<any> {
+        try {
+            if (!email || !brandName) {
+                throw new Error("Email and brand name are required");
+            }
+
+            const safeName = EmailService.escapeHtml(brandName);
+            const emailHtml = EmailService.buildEmailTemplate(
+                "Brand Ownership Transferred",
+                isNewOwner
+                    ? `You are now the owner of ${safeName} on TheBlacklistXYZ.`
+                    : `Ownership of ${safeName} was transferred. You remain on the brand team as an editor.`,
+                {
+                    notice: "If you didn't expect this change, contact our support team."
+                }
+            );
+
+            return await EmailService.deliverEmail(email, "Brand Ownership Transferred - TheBlacklistXYZ", emailHtml);
+        } catch (error: any) {
+            console.error('Error sending brand ownership email:', error?.message ?? "Unknown error");
+            throw new Error(`Failed to send brand ownership email: ${error?.message ?? "Unknown error"}`);
+        }
+    }
+
 }
 export default EmailService;
\ No newline at end of file
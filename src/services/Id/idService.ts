@@ -0,0 +1,92 @@
+import { randomBytes } from "crypto";
+import { IdPrefix } from "../../models/Id.js";
+
+/**
+ * ID Generation
+ * - IDs are a type prefix followed by a 26 character ULID (48-bit time + 80-bit randomness)
+ * - Crockford base32 keeps IDs sortable by creation time as plain strings
+ * - IDs minted in the same millisecond increment the randomness, so a process never repeats one
+ * - Unique DB indexes back this up across processes
+ */
+class IdService {
+    private static readonly ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+    private static readonly TIME_LENGTH = 10;
+    private static readonly RANDOM_LENGTH = 16;
+    private static readonly PREFIXES: IdPrefix[] = ["USR", "BRD", "PRD", "REF"];
+
+    private static lastTime = 0;
+    private static lastRandom: number[] = [];
+
+    private static encodeTime(time: number): string {
+        let output = "";
+        for (let i = 0; i < this.TIME_LENGTH; i++) {
+            output = this.ENCODING[time % 32] + output;
+            time = Math.floor(time / 32);
+        }
+        return output;
+    }
+
+    private static randomDigits(): number[] {
+        return Array.from(randomBytes(this.RANDOM_LENGTH), byte => byte % 32);
+    }
+
+    // Increment the base32 randomness by one, carrying from the last digit
+    private static incrementRandom(digits: number[]): number[] {
+        const next = [...digits];
+        for (let i = next.length - 1; i >= 0; i--) {
+            if (next[i] < 31) {
+                next[i]++;
+                return next;
+            }
+            next[i] = 0;
+        }
+        throw new Error("ID randomness exhausted for this millisecond");
+    }
+
+    static generate(prefix: IdPrefix): string {
+        const now = Date.now();
+        if (now <= this.lastTime) {
+            this.lastRandom = this.incrementRandom(this.lastRandom);
+        } else {
+            this.lastTime = now;
+            this.lastRandom = this.randomDigits();
+        }
+
+        const random = this.lastRandom.map(digit => this.ENCODING[digit]).join("");
+        return `${prefix}${this.encodeTime(this.lastTime)}${random}`;
+    }
+
+    // Accepts current IDs and the legacy formats (USR001A2B, timestamp fallbacks) still stored
+    static isValid(id: unknown, prefix?: IdPrefix): boolean {
+        if (typeof id !== "string") {
+            return false;
+        }
+        const prefixes = prefix ? [prefix] : this.PREFIXES;
+        const matchedPrefix = prefixes.find(candidate => id.startsWith(candidate));
+        if (!matchedPrefix) {
+            return false;
+        }
+
+        const body = id.slice(matchedPrefix.length);
+        return /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/.test(body) ||
+            /^\d{3}[A-Z0-9]{3}$/.test(body) ||
+            /^\d{6,9}$/.test(body);
+    }
+
+    // Creation time encoded in an ID, null for legacy IDs
+    static getTimestamp(id: string): Date | null {
+        const prefix = this.PREFIXES.find(candidate => id.startsWith(candidate));
+        const body = prefix ? id.slice(prefix.length) : "";
+        if (!/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/.test(body)) {
+            return null;
+        }
+
+        let time = 0;
+        for (const char of body.slice(0, this.TIME_LENGTH)) {
+            time = time * 32 + this.ENCODING.indexOf(char);
+        }
+        return new Date(time);
+    }
+}
+
+export default IdService;
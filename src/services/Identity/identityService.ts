@@ -0,0 +1,92 @@
+import { createHmac } from "crypto";
+import { encryptData } from "securex";
+import DBService from "../DB/dbService.js";
+import AuditService from "../Audit/auditService.js";
+import AppError from "../../helpers/AppError.js";
+import { IdentityRecord, MaskedIdentity } from "../../models/Identity.js";
+import { ClientContext } from "../../models/Session.js";
+
+/**
+ * Identity Records
+ * - SSNs are stored encrypted with IDENTITY_ENCRYPTION_KEY in the identities collection
+ * - A keyed hash (IDENTITY_HASH_KEY) under a unique index detects a second account with the same SSN
+ * - Admins only ever see a masked SSN, and every view is audited
+ */
+class IdentityService {
+    private static readonly COLLECTION = "identities";
+
+    private static getKey(name: "IDENTITY_ENCRYPTION_KEY" | "IDENTITY_HASH_KEY"): string {
+        const key = process.env[name];
+        if (!key) {
+            throw new Error(`${name} not found in environment variables`);
+        }
+        return key;
+    }
+
+    private static normalizeSsn(ssn: string): string {
+        return ssn.replace(/\D/g, "");
+    }
+
+    private static hashSsn(ssn: string): string {
+        return createHmac("sha256", this.getKey("IDENTITY_HASH_KEY")).update(this.normalizeSsn(ssn)).digest("hex");
+    }
+
+    static async isSsnRegistered(ssn: string): Promise<boolean> {
+        const record = await DBService.findByField(this.COLLECTION, "ssnHash", this.hashSsn(ssn));
+        return !!record;
+    }
+
+    // Store a validated SSN for a user and return the verification time
+    static async storeIdentity(userId: string, ssn: string): Promise<string> {
+        const normalizedSsn = this.normalizeSsn(ssn);
+        const verifiedAt = new Date().toISOString();
+        const record: IdentityRecord = {
+            userId,
+            ssnHash: this.hashSsn(normalizedSsn),
+            ssn: await encryptData(normalizedSsn, this.getKey("IDENTITY_ENCRYPTION_KEY")),
+            last4: normalizedSsn.slice(-4),
+            createdAt: verifiedAt,
+            verifiedAt
+        };
+
+        try {
+            await DBService.insertData(this.COLLECTION, record);
+        } catch (error) {
+            // The unique index on ssnHash settles concurrent sign-ups with the same SSN
+            if (String(error).includes("E11000")) {
+                throw new AppError("An account with this SSN already exists", 409, "SSN_ALREADY_REGISTERED");
+            }
+            throw error;
+        }
+        return verifiedAt;
+    }
+
+    static async deleteIdentity(userId: string): Promise<void> {
+        await DBService.deleteByField(this.COLLECTION, "userId", userId);
+    }
+
+    static async getMaskedIdentity(userId: string, actorId: string, context: ClientContext = {}): Promise<MaskedIdentity> {
+        const record = await DBService.findByField(this.COLLECTION, "userId", userId);
+
+        AuditService.record("admin.view_identity", {
+            actorId,
+            targetId: userId,
+            targetType: "user",
+            ...context,
+            outcome: record ? "success" : "failure",
+            reason: record ? undefined : "IDENTITY_NOT_FOUND"
+        });
+
+        if (!record) {
+            throw new AppError("No identity record for this user", 404, "IDENTITY_NOT_FOUND");
+        }
+
+        return {
+            userId,
+            maskedSsn: `***-**-${record.last4}`,
+            identityVerifiedAt: record.verifiedAt
+        };
+    }
+}
+
+export default IdentityService;
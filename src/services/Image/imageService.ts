@@ -0,0 +1,148 @@
+import AppError from "../../helpers/AppError.js";
+import { ImageType, UploadedImage } from "../../models/Storage.js";
+
+/**
+ * Image Uploads
+ * - The image type is taken from the file's magic bytes, never from the client's MIME type
+ * - EXIF, XMP, IPTC, comments and text chunks are stripped before an image is stored
+ * - Pixel data is left untouched, so no image library is needed
+ */
+class ImageService {
+    private static readonly EXTENSIONS: Record<ImageType, string> = {
+        "image/jpeg": "jpg",
+        "image/png": "png",
+        "image/webp": "webp"
+    };
+    private static readonly PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    // JPEG segments carrying camera, location or editor metadata: APP1, APP3-APP12, APP13, APP15 and comments
+    private static readonly JPEG_METADATA_MARKERS = new Set([0xe1, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xeb, 0xec, 0xed, 0xef, 0xfe]);
+    private static readonly PNG_METADATA_CHUNKS = new Set(["tEXt", "zTXt", "iTXt", "eXIf", "tIME"]);
+    private static readonly WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+
+    static detectType(data: Buffer): ImageType | null {
+        if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+            return "image/jpeg";
+        }
+        if (data.length >= 8 && data.subarray(0, 8).equals(this.PNG_SIGNATURE)) {
+            return "image/png";
+        }
+        if (data.length >= 12 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") {
+            return "image/webp";
+        }
+        return null;
+    }
+
+    private static stripJpeg(data: Buffer): Buffer {
+        const parts: Buffer[] = [data.subarray(0, 2)];
+        let offset = 2;
+
+        while (offset < data.length) {
+            if (data[offset] !== 0xff) {
+                throw new Error("Malformed JPEG segment");
+            }
+            const marker = data[offset + 1];
+
+            // Start of scan: the compressed image data runs to the end of the file
+            if (marker === 0xda) {
+                parts.push(data.subarray(offset));
+                return Buffer.concat(parts);
+            }
+            // Fill bytes and markers without a length field
+            if (marker === 0xff) {
+                offset++;
+                continue;
+            }
+            if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+                parts.push(data.subarray(offset, offset + 2));
+                offset += 2;
+                continue;
+            }
+
+            const segmentEnd = offset + 2 + data.readUInt16BE(offset + 2);
+            if (segmentEnd > data.length) {
+                throw new Error("Truncated JPEG segment");
+            }
+            if (!this.JPEG_METADATA_MARKERS.has(marker)) {
+                parts.push(data.subarray(offset, segmentEnd));
+            }
+            offset = segmentEnd;
+        }
+        throw new Error("JPEG has no image data");
+    }
+
+    private static stripPng(data: Buffer): Buffer {
+        const parts: Buffer[] = [data.subarray(0, 8)];
+        let offset = 8;
+
+        while (offset < data.length) {
+            const chunkEnd = offset + 12 + data.readUInt32BE(offset);
+            if (chunkEnd > data.length) {
+                throw new Error("Truncated PNG chunk");
+            }
+            const chunkType = data.toString("ascii", offset + 4, offset + 8);
+            if (!this.PNG_METADATA_CHUNKS.has(chunkType)) {
+                parts.push(data.subarray(offset, chunkEnd));
+            }
+            offset = chunkEnd;
+            if (chunkType === "IEND") {
+                return Buffer.concat(parts);
+            }
+        }
+        throw new Error("PNG has no end chunk");
+    }
+
+    private static stripWebp(data: Buffer): Buffer {
+        const parts: Buffer[] = [];
+        let offset = 12;
+
+        while (offset + 8 <= data.length) {
+            const chunkType = data.toString("ascii", offset, offset + 4);
+            const chunkSize = data.readUInt32LE(offset + 4);
+            const chunkEnd = offset + 8 + chunkSize + (chunkSize % 2);
+            if (chunkEnd > data.length) {
+                throw new Error("Truncated WebP chunk");
+            }
+            if (!this.WEBP_METADATA_CHUNKS.has(chunkType)) {
+                const chunk = Buffer.from(data.subarray(offset, chunkEnd));
+                // Clear the EXIF and XMP flags of the extended header
+                if (chunkType === "VP8X") {
+                    chunk[8] &= ~0x0c;
+                }
+                parts.push(chunk);
+            }
+            offset = chunkEnd;
+        }
+
+        const body = Buffer.concat(parts);
+        const header = Buffer.alloc(12);
+        header.write("RIFF", 0, "ascii");
+        header.writeUInt32LE(body.length + 4, 4);
+        header.write("WEBP", 8, "ascii");
+        return Buffer.concat([header, body]);
+    }
+
+    // Validate an uploaded image and return it with its metadata removed
+    static sanitize(data: Buffer): UploadedImage {
+        const contentType = this.detectType(data);
+        if (!contentType) {
+            throw new AppError("Only JPEG, PNG and WebP images are allowed", 415, "UNSUPPORTED_MEDIA_TYPE");
+        }
+
+        try {
+            const strippers: Record<ImageType, (data: Buffer) => Buffer> = {
+                "image/jpeg": buffer => this.stripJpeg(buffer),
+                "image/png": buffer => this.stripPng(buffer),
+                "image/webp": buffer => this.stripWebp(buffer)
+            };
+            return {
+                contentType,
+                extension: this.EXTENSIONS[contentType],
+                data: strippers[contentType](data)
+            };
+        } catch (error: any) {
+            throw new AppError(`Invalid image: ${error?.message ?? "unreadable file"}`, 400, "INVALID_IMAGE");
+        }
+    }
+}
+
+export default ImageService;
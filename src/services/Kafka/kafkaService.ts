@@ -1,6 +1,9 @@
 import { Kafka, Producer, Consumer, KafkaConfig, Admin } from 'kafkajs';
 import { encryptData, decryptData } from 'securex';
+import { PullOperator } from 'mongodb';
 import DBService from '../DB/dbService.js';
+import CacheService from '../Cache/cacheService.js';
+import { InsertedProductDoc } from '../../models/Product.js';
 
 /**
  * Production-Ready Kafka Service with Batch Processing
@@ -30,7 +33,8 @@ class KafkaService {
         PRODUCT_DELETE: 'product-delete-queue',
         BRAND_CREATE: 'brand-create-queue',
         BRAND_UPDATE: 'brand-update-queue',
-        BRAND_DELETE: 'brand-delete-queue'
+        BRAND_DELETE: 'brand-delete-queue',
+        AUDIT_EVENT: 'audit-event-queue'
     };
 
     // Initialize Kafka with production-ready configuration
@@ -324,6 +328,16 @@ class KafkaService {
             operation: 'delete'
         }, brandId);
     }
+    // Audit event producer - events are append-only, there is no update or delete topic
+    static async sendAuditEvent(eventId: string, eventData: any): Promise<void> {
+        const encryptedEventData = await this.encryptKafkaData(eventData);
+        await this.sendMessage(this.TOPICS.AUDIT_EVENT, {
+            eventId,
+            eventData: encryptedEventData,
+            operation: 'create'
+        }, eventId);
+    }
+
     // Encryption helper methods for Kafka data
     private static async encryptKafkaData(data: any): Promise<any> {
         try {
@@ -364,11 +378,38 @@ class KafkaService {
             await DBService.bulkInsert('users', userData);
             // console.log(`Successfully created ${userData.length} users in database with encryption`); // Removed for production performance
         } catch (error) {
+            // Unordered inserts keep the rest of the batch when the email index rejects a duplicate
+            if (String(error).includes('E11000')) {
+                await KafkaService.reportRejectedUsers(batch);
+                return;
+            }
             console.error('Error in user create batch:', error);
             throw error;
         }
     }
 
+    // A redelivered user is already stored under its own userId, anything else lost its email to another account
+    private static async reportRejectedUsers(batch: any[]): Promise<void> {
+        const userIds: string[] = batch.map(msg => msg.userId);
+        const storedUsers = await DBService.findByFilter('users', { userId: { $in: userIds } }, userIds.length);
+        const storedUserIds = new Set(storedUsers.map((user: any) => user.userId));
+        const rejectedUserIds = userIds.filter(userId => !storedUserIds.has(userId));
+        if (rejectedUserIds.length === 0) {
+            return;
+        }
+
+        console.error(`User create batch rejected ${rejectedUserIds.length} user(s) on a duplicate key:`, rejectedUserIds);
+        const { default: AuditService } = await import("../Audit/auditService.js");
+        for (const userId of rejectedUserIds) {
+            AuditService.record("user.create", {
+                targetId: userId,
+                targetType: "user",
+                outcome: "failure",
+                reason: "DUPLICATE_KEY"
+            });
+        }
+    }
+
     private static async processUserUpdateBatch(batch: any[]): Promise<void> {
         try {
             const bulkOps = await Promise.all(batch.map(async (msg) => {
@@ -380,10 +421,28 @@ class KafkaService {
 
                 // Only update fields that are provided (field-level updates)
                 if (decryptedData.email) fieldUpdates.email = decryptedData.email;
+                if (decryptedData.normalizedEmail) fieldUpdates.normalizedEmail = decryptedData.normalizedEmail;
                 if (decryptedData.firstname) fieldUpdates.firstname = decryptedData.firstname;
                 if (decryptedData.lastname) fieldUpdates.lastname = decryptedData.lastname;
+                if (decryptedData.password) fieldUpdates.password = decryptedData.password;
                 if (decryptedData.verified !== undefined) fieldUpdates.verified = decryptedData.verified;
-                if (decryptedData.brandid) fieldUpdates.brandid = decryptedData.brandid;
+                if (decryptedData.role) fieldUpdates.role = decryptedData.role;
+                if (decryptedData.tokenVersion !== undefined) fieldUpdates.tokenVersion = decryptedData.tokenVersion;
+                if (decryptedData.mfa) fieldUpdates.mfa = decryptedData.mfa;
+                // Only vault references are stored, a raw card from an event queued before the vault migration is dropped
+                if (decryptedData.billingdata?.token) fieldUpdates.billingdata = decryptedData.billingdata;
+                if (decryptedData.identityVerifiedAt) fieldUpdates.identityVerifiedAt = decryptedData.identityVerifiedAt;
+                if (decryptedData.suspended !== undefined) {
+                    fieldUpdates.suspended = decryptedData.suspended;
+                    fieldUpdates.suspendedAt = decryptedData.suspendedAt ?? null;
+                    fieldUpdates.suspendedReason = decryptedData.suspendedReason ?? null;
+                }
+                if (decryptedData.deletionRequestedAt !== undefined) {
+                    fieldUpdates.deletionRequestedAt = decryptedData.deletionRequestedAt;
+                    fieldUpdates.deletionScheduledFor = decryptedData.deletionScheduledFor ?? null;
+                }
+                // An empty brandid unlinks a deleted brand, so it is not skipped as falsy
+                if (decryptedData.brandid !== undefined) fieldUpdates.brandid = decryptedData.brandid;
                 if (decryptedData.refferalsid) fieldUpdates.refferalsid = decryptedData.refferalsid;
 
                 // Handle nested referrals object updates
@@ -435,14 +494,32 @@ class KafkaService {
     // Product batch processors with encryption
     private static async processProductCreateBatch(batch: any[]): Promise<void> {
         try {
-            const productData = await Promise.all(batch.map(async (msg) => {
-                const decryptedData = await KafkaService.decryptKafkaData(msg.productData);
-                return decryptedData;
+            // Products are appended to their brand's products document, which is created with the first one
+            const bulkOps = await Promise.all(batch.map(async (msg) => {
+                const { productdocid, brandid, product } = await KafkaService.decryptKafkaData(msg.productData);
+                return {
+                    updateOne: {
+                        filter: { productdocid, 'productList.productId': { $ne: product.productId } },
+                        update: {
+                            $setOnInsert: { productdocid, brandid },
+                            $push: { productList: product }
+                        },
+                        upsert: true
+                    }
+                };
             }));
 
-            await DBService.bulkInsert('products', productData);
-            // console.log(`Successfully created ${productData.length} products in database with encryption`); // Removed for production performance
+            const database = await import("../../config/db.js");
+            const db = await database.default.getDatabase();
+            const collection = db.collection('products');
+            await collection.bulkWrite(bulkOps, { ordered: false });
+            // console.log(`Successfully created ${bulkOps.length} products in database with encryption`); // Removed for production performance
         } catch (error) {
+            // A redelivered product already in its document fails the upsert on the productdocid index and is skipped
+            if (String(error).includes('E11000')) {
+                console.error('Duplicate products skipped in product create batch:', error);
+                return;
+            }
             console.error('Error in product create batch:', error);
             throw error;
         }
@@ -459,8 +536,10 @@ class KafkaService {
 
                 // Only update fields that are provided (field-level updates within array)
                 if (decryptedData.name) fieldUpdates['productList.$.name'] = decryptedData.name;
-                if (decryptedData.description) fieldUpdates['productList.$.description'] = decryptedData.description;
+                if (decryptedData.description !== undefined) fieldUpdates['productList.$.description'] = decryptedData.description;
                 if (decryptedData.categoryid) fieldUpdates['productList.$.categoryid'] = decryptedData.categoryid;
+                if (decryptedData.imageurl !== undefined) fieldUpdates['productList.$.imageurl'] = decryptedData.imageurl;
+                if (decryptedData.updatedAt) fieldUpdates['productList.$.updatedAt'] = decryptedData.updatedAt;
 
                 return {
                     updateOne: {
@@ -490,8 +569,13 @@ class KafkaService {
             const productIds = batch.map(msg => msg.productId);
             const database = await import("../../config/db.js");
             const db = await database.default.getDatabase();
-            const collection = db.collection('products');
-            await collection.deleteMany({ productId: { $in: productIds } });
+            const collection = db.collection<InsertedProductDoc>('products');
+            // Products live in their brand's productList, so they are pulled out of it
+            const pullProducts: PullOperator<InsertedProductDoc> = { productList: { productId: { $in: productIds } } };
+            await collection.updateMany(
+                { 'productList.productId': { $in: productIds } },
+                { $pull: pullProducts }
+            );
 
             // console.log(`Successfully deleted ${productIds.length} products from database`); // Removed for production performance
         } catch (error) {
@@ -509,6 +593,7 @@ class KafkaService {
             }));
 
             await DBService.bulkInsert('brands', brandData);
+            await CacheService.clearBrandListingCache();
             // console.log(`Successfully created ${brandData.length} brands in database with encryption`); // Removed for production performance
         } catch (error) {
             console.error('Error in brand create batch:', error);
@@ -522,12 +607,18 @@ class KafkaService {
                 const decryptedData = await KafkaService.decryptKafkaData(msg.brandData);
                 const fieldUpdates: any = {
                 };
+                if (decryptedData.ownerid) fieldUpdates.ownerid = decryptedData.ownerid;
                 if (decryptedData.name) fieldUpdates.name = decryptedData.name;
                 if (decryptedData.yearfounded) fieldUpdates.yearfounded = decryptedData.yearfounded;
                 if (decryptedData.description) fieldUpdates.description = decryptedData.description;
                 if (decryptedData.logourl) fieldUpdates.logourl = decryptedData.logourl;
                 if (decryptedData.distributionstates) fieldUpdates.distributionstates = decryptedData.distributionstates;
                 if (decryptedData.productsdocid) fieldUpdates.productsdocid = decryptedData.productsdocid;
+                if (decryptedData.status) fieldUpdates.status = decryptedData.status;
+                if (decryptedData.reviewnote !== undefined) fieldUpdates.reviewnote = decryptedData.reviewnote;
+                if (decryptedData.reviewhistory) fieldUpdates.reviewhistory = decryptedData.reviewhistory;
+                if (decryptedData.statusUpdatedAt) fieldUpdates.statusUpdatedAt = decryptedData.statusUpdatedAt;
+                if (decryptedData.updatedAt) fieldUpdates.updatedAt = decryptedData.updatedAt;
 
                 return {
                     updateOne: {
@@ -542,6 +633,7 @@ class KafkaService {
             const db = await database.default.getDatabase();
             const collection = db.collection('brands');
             await collection.bulkWrite(bulkOps, { ordered: false });
+            await CacheService.clearBrandListingCache();
 
             // console.log(`Successfully updated ${batch.length} brands with field-level updates`); // Removed for production performance
         } catch (error) {
@@ -556,7 +648,15 @@ class KafkaService {
             const database = await import("../../config/db.js");
             const db = await database.default.getDatabase();
             const collection = db.collection('brands');
-            await collection.deleteMany({ brandId: { $in: brandIds } });
+
+            // Products of a brand live in its products document, which goes with it
+            const brands = await collection.find({ brandid: { $in: brandIds } }).toArray();
+            const productsDocIds = brands.map(brand => brand.productsdocid).filter(Boolean);
+            if (productsDocIds.length > 0) {
+                await db.collection('products').deleteMany({ productdocid: { $in: productsDocIds } });
+            }
+            await collection.deleteMany({ brandid: { $in: brandIds } });
+            await CacheService.clearBrandListingCache();
 
             // console.log(`Successfully deleted ${brandIds.length} brands from database`); // Removed for production performance
         } catch (error) {
@@ -565,6 +665,21 @@ class KafkaService {
         }
     }
 
+    // Audit batch processor
+    private static async processAuditEventBatch(batch: any[]): Promise<void> {
+        try {
+            const eventData = await Promise.all(batch.map(async (msg) => {
+                const decryptedData = await KafkaService.decryptKafkaData(msg.eventData);
+                return decryptedData;
+            }));
+
+            await DBService.bulkInsert('audit_events', eventData);
+        } catch (error) {
+            console.error('Error in audit event batch:', error);
+            throw error;
+        }
+    }
+
     // Initialize all background workers in proper dependency order
     static async initializeWorkers(): Promise<void> {
         console.log('Initializing Kafka background workers in proper sequence...');
@@ -584,6 +699,9 @@ class KafkaService {
         await this.createBatchConsumer('brand-delete-workers', this.TOPICS.BRAND_DELETE, this.processBrandDeleteBatch);
         await this.createBatchConsumer('user-delete-workers', this.TOPICS.USER_DELETE, this.processUserDeleteBatch);
 
+        // Audit events do not depend on any other entity
+        await this.createBatchConsumer('audit-event-workers', this.TOPICS.AUDIT_EVENT, this.processAuditEventBatch);
+
         console.log('All Kafka workers initialized successfully in proper sequence!');
     }
 
@@ -0,0 +1,70 @@
+import { createHash } from "crypto";
+import CacheService from "../Cache/cacheService.js";
+import EmailService from "../Email/emailService.js";
+import AppError from "../../helpers/AppError.js";
+import { User } from "../../models/User.js";
+
+/**
+ * Account Lockout
+ * - Counts failed logins per account inside a rolling window
+ * - Locks the account for a while once the limit is reached and emails the owner
+ * - Unknown emails are counted and locked the same way, so a lockout doesn't reveal whether an account exists
+ */
+class LockoutService {
+    private static readonly MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5');
+    private static readonly FAILURE_WINDOW = parseInt(process.env.LOGIN_FAILURE_WINDOW || '900'); // 15 minutes
+    private static readonly LOCK_DURATION = parseInt(process.env.ACCOUNT_LOCK_DURATION || '900'); // 15 minutes
+
+    // Throw if the account is currently locked
+    static async assertNotLocked(userId: string): Promise<void> {
+        const remainingSeconds = await CacheService.getAccountLockRemaining(userId);
+        if (remainingSeconds > 0) {
+            const minutes = Math.ceil(remainingSeconds / 60);
+            throw new AppError(`Account is temporarily locked, please try again in ${minutes} minute(s)`, 423, "ACCOUNT_LOCKED");
+        }
+    }
+
+    static async recordFailedLogin(user: User): Promise<void> {
+        const failedAttempts = await CacheService.incrementFailedLogins(user.userId, this.FAILURE_WINDOW);
+        if (failedAttempts < this.MAX_FAILED_ATTEMPTS) {
+            return;
+        }
+
+        await Promise.all([
+            CacheService.lockAccount(user.userId, this.LOCK_DURATION),
+            CacheService.resetFailedLogins(user.userId)
+        ]);
+
+        EmailService.sendAccountLockedEmail(user.email, Math.ceil(this.LOCK_DURATION / 60)).catch(error => {
+            console.error("Account locked email error:", error);
+        });
+    }
+
+    // Lock key for an email with no account, hashed so addresses are not kept in Redis
+    private static getUnknownEmailKey(normalizedEmail: string): string {
+        return `unknown_email:${createHash("sha256").update(normalizedEmail).digest("hex")}`;
+    }
+
+    static async assertUnknownEmailNotLocked(normalizedEmail: string): Promise<void> {
+        await this.assertNotLocked(this.getUnknownEmailKey(normalizedEmail));
+    }
+
+    static async recordFailedUnknownLogin(normalizedEmail: string): Promise<void> {
+        const lockKey = this.getUnknownEmailKey(normalizedEmail);
+        const failedAttempts = await CacheService.incrementFailedLogins(lockKey, this.FAILURE_WINDOW);
+        if (failedAttempts < this.MAX_FAILED_ATTEMPTS) {
+            return;
+        }
+
+        await Promise.all([
+            CacheService.lockAccount(lockKey, this.LOCK_DURATION),
+            CacheService.resetFailedLogins(lockKey)
+        ]);
+    }
+
+    static async recordSuccessfulLogin(userId: string): Promise<void> {
+        await CacheService.resetFailedLogins(userId);
+    }
+}
+
+export default LockoutService;
@@ -0,0 +1,229 @@
+import { createHmac, randomBytes } from "crypto";
+import { decryptData, encryptData } from "securex";
+import CacheService from "../Cache/cacheService.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import PasswordService from "../Password/passwordService.js";
+import AuditService from "../Audit/auditService.js";
+import AppError from "../../helpers/AppError.js";
+import { User } from "../../models/User.js";
+import { ClientContext } from "../../models/Session.js";
+
+/**
+ * TOTP Two-Factor Authentication (RFC 6238)
+ * - 6 digit codes, 30 second steps, HMAC-SHA1, one step of clock drift allowed
+ * - Secrets are stored securex-encrypted, recovery codes are stored hashed
+ * - A code's time step is remembered so the same code cannot be replayed
+ */
+class MfaService {
+    private static readonly ISSUER = "TheBlacklistXYZ";
+    private static readonly DIGITS = 6;
+    private static readonly PERIOD = 30;
+    private static readonly DRIFT_STEPS = 1;
+    private static readonly RECOVERY_CODE_COUNT = 10;
+    private static readonly BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+    private static base32Encode(buffer: Buffer): string {
+        let bits = 0;
+        let value = 0;
+        let output = "";
+        for (const byte of buffer) {
+            value = (value << 8) | byte;
+            bits += 8;
+            while (bits >= 5) {
+                output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+                bits -= 5;
+            }
+        }
+        if (bits > 0) {
+            output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+        }
+        return output;
+    }
+
+    private static base32Decode(input: string): Buffer {
+        const cleaned = input.replace(/=+$/, "").toUpperCase();
+        let bits = 0;
+        let value = 0;
+        const bytes: number[] = [];
+        for (const char of cleaned) {
+            const index = this.BASE32_ALPHABET.indexOf(char);
+            if (index === -1) {
+                throw new Error("Invalid base32 secret");
+            }
+            value = (value << 5) | index;
+            bits += 5;
+            if (bits >= 8) {
+                bytes.push((value >>> (bits - 8)) & 255);
+                bits -= 8;
+            }
+        }
+        return Buffer.from(bytes);
+    }
+
+    private static generateCode(secret: string, step: number): string {
+        const counter = Buffer.alloc(8);
+        counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+        counter.writeUInt32BE(step % 2 ** 32, 4);
+
+        const hmac = createHmac("sha1", this.base32Decode(secret)).update(counter).digest();
+        const offset = hmac[hmac.length - 1] & 0xf;
+        const binary = ((hmac[offset] & 0x7f) << 24) |
+            (hmac[offset + 1] << 16) |
+            (hmac[offset + 2] << 8) |
+            hmac[offset + 3];
+
+        return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, "0");
+    }
+
+    // Returns the matched time step, or null when the code is invalid or already used
+    private static matchCode(secret: string, code: string, lastUsedStep?: number): number | null {
+        if (!/^\d{6}$/.test(code)) {
+            return null;
+        }
+
+        const currentStep = Math.floor(Date.now() / 1000 / this.PERIOD);
+        for (let drift = -this.DRIFT_STEPS; drift <= this.DRIFT_STEPS; drift++) {
+            const step = currentStep + drift;
+            if (lastUsedStep !== undefined && step <= lastUsedStep) {
+                continue;
+            }
+            if (this.generateCode(secret, step) === code) {
+                return step;
+            }
+        }
+        return null;
+    }
+
+    private static generateRecoveryCodes(): string[] {
+        const codes: string[] = [];
+        for (let i = 0; i < this.RECOVERY_CODE_COUNT; i++) {
+            const raw = randomBytes(5).toString("hex").toUpperCase();
+            codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+        }
+        return codes;
+    }
+
+    private static async saveUser(userId: string, updatedUser: User): Promise<void> {
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("MFA user update event error:", error);
+        });
+    }
+
+    // Admins can be forced into MFA through ENFORCE_ADMIN_MFA
+    static isMfaRequired(user: User): boolean {
+        return user.role === "admin" && process.env.ENFORCE_ADMIN_MFA === "true";
+    }
+
+    // Generate a new secret waiting for confirmation
+    static async startEnrollment(userId: string): Promise<{ secret: string; otpauthUri: string }> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new Error("User not found");
+        }
+        if (user.mfa?.enabled) {
+            throw new AppError("Two-factor authentication is already enabled", 409, "MFA_ALREADY_ENABLED");
+        }
+
+        const secret = this.base32Encode(randomBytes(20));
+        const encryptedSecret = await encryptData(secret, process.env.SECUREX_KEY as string);
+        await this.saveUser(userId, {
+            ...user,
+            mfa: { enabled: false, pendingSecret: encryptedSecret, recoveryCodes: [] }
+        });
+
+        const label = encodeURIComponent(`${this.ISSUER}:${user.email}`);
+        const otpauthUri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(this.ISSUER)}` +
+            `&algorithm=SHA1&digits=${this.DIGITS}&period=${this.PERIOD}`;
+
+        return { secret, otpauthUri };
+    }
+
+    // Confirm the pending secret with a code and return the recovery codes, shown only once
+    static async confirmEnrollment(userId: string, code: string, context: ClientContext = {}): Promise<string[]> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new Error("User not found");
+        }
+        if (user.mfa?.enabled) {
+            throw new AppError("Two-factor authentication is already enabled", 409, "MFA_ALREADY_ENABLED");
+        }
+        if (!user.mfa?.pendingSecret) {
+            throw new AppError("Two-factor setup has not been started", 400, "MFA_SETUP_REQUIRED");
+        }
+
+        const secret = await decryptData(user.mfa.pendingSecret, process.env.SECUREX_KEY as string);
+        const matchedStep = this.matchCode(secret, code);
+        if (matchedStep === null) {
+            throw new AppError("Invalid two-factor code", 401, "INVALID_MFA_CODE");
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        const hashedRecoveryCodes = await Promise.all(recoveryCodes.map(recoveryCode => PasswordService.hash(recoveryCode)));
+
+        await this.saveUser(userId, {
+            ...user,
+            mfa: {
+                enabled: true,
+                secret: user.mfa.pendingSecret,
+                recoveryCodes: hashedRecoveryCodes,
+                enrolledAt: new Date().toISOString(),
+                lastUsedStep: matchedStep
+            }
+        });
+
+        AuditService.record("mfa.enable", { actorId: userId, targetId: userId, targetType: "user", ...context, outcome: "success" });
+        return recoveryCodes;
+    }
+
+    // Check a TOTP or recovery code for a user with MFA enabled, consuming it on success
+    static async verifyUserCode(user: User, code: string): Promise<boolean> {
+        if (!user.mfa?.enabled || !user.mfa.secret || !code) {
+            return false;
+        }
+
+        const normalizedCode = code.trim().toUpperCase();
+        const secret = await decryptData(user.mfa.secret, process.env.SECUREX_KEY as string);
+        const matchedStep = this.matchCode(secret, normalizedCode, user.mfa.lastUsedStep);
+        if (matchedStep !== null) {
+            await this.saveUser(user.userId, { ...user, mfa: { ...user.mfa, lastUsedStep: matchedStep } });
+            return true;
+        }
+
+        for (const [index, hashedCode] of user.mfa.recoveryCodes.entries()) {
+            const { valid } = await PasswordService.verify(normalizedCode, hashedCode);
+            if (valid) {
+                const remainingCodes = user.mfa.recoveryCodes.filter((_, i) => i !== index);
+                await this.saveUser(user.userId, { ...user, mfa: { ...user.mfa, recoveryCodes: remainingCodes } });
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    static async disable(userId: string, code: string, context: ClientContext = {}): Promise<void> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new Error("User not found");
+        }
+        if (!user.mfa?.enabled) {
+            throw new AppError("Two-factor authentication is not enabled", 400, "MFA_NOT_ENABLED");
+        }
+        if (this.isMfaRequired(user)) {
+            throw new AppError("Two-factor authentication is required for this account", 403, "MFA_REQUIRED");
+        }
+
+        const isValid = await this.verifyUserCode(user, code);
+        if (!isValid) {
+            AuditService.record("mfa.disable", { actorId: userId, targetId: userId, targetType: "user", ...context, outcome: "failure", reason: "INVALID_MFA_CODE" });
+            throw new AppError("Invalid two-factor code", 401, "INVALID_MFA_CODE");
+        }
+
+        const freshUser = await CacheService.getUser(userId);
+        await this.saveUser(userId, { ...(freshUser ?? user), mfa: { enabled: false, recoveryCodes: [] } });
+        AuditService.record("mfa.disable", { actorId: userId, targetId: userId, targetType: "user", ...context, outcome: "success" });
+    }
+}
+
+export default MfaService;
@@ -0,0 +1,129 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { decryptData } from "securex";
+
+interface ScryptParams {
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+}
+
+/**
+ * One-way password hashing
+ * - Hashes are stored as `$scrypt$ln=<log2 N>,r=<r>,p=<p>$<salt>$<hash>`
+ * - Every hash has its own random salt and records the parameters it was made with
+ * - Passwords stored by the old securex encryption are still accepted and flagged for rehash
+ */
+class PasswordService {
+    private static readonly ALGORITHM = "scrypt";
+    private static readonly SALT_LENGTH = 16;
+    private static readonly KEY_LENGTH = 64;
+
+    // Current parameters, tunable through the environment
+    private static getCurrentParams(): ScryptParams {
+        return {
+            cost: parseInt(process.env.PASSWORD_SCRYPT_COST || '15'),
+            blockSize: parseInt(process.env.PASSWORD_SCRYPT_BLOCK_SIZE || '8'),
+            parallelization: parseInt(process.env.PASSWORD_SCRYPT_PARALLELIZATION || '1')
+        };
+    }
+
+    private static deriveKey(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+        const N = 2 ** params.cost;
+        return new Promise((resolve, reject) => {
+            scrypt(password, salt, keyLength, {
+                N,
+                r: params.blockSize,
+                p: params.parallelization,
+                maxmem: 256 * N * params.blockSize
+            }, (error, derivedKey) => {
+                if (error) {
+                    return reject(error);
+                }
+                resolve(derivedKey);
+            });
+        });
+    }
+
+    // Parse a stored hash, returning null for anything that is not in our format
+    private static parseHash(storedHash: string): { params: ScryptParams; salt: Buffer; hash: Buffer } | null {
+        const parts = storedHash.split('$');
+        if (parts.length !== 5 || parts[0] !== '' || parts[1] !== this.ALGORITHM) {
+            return null;
+        }
+
+        const params: any = {};
+        for (const pair of parts[2].split(',')) {
+            const [name, value] = pair.split('=');
+            params[name] = parseInt(value);
+        }
+        if (!params.ln || !params.r || !params.p) {
+            return null;
+        }
+
+        return {
+            params: { cost: params.ln, blockSize: params.r, parallelization: params.p },
+            salt: Buffer.from(parts[3], 'base64'),
+            hash: Buffer.from(parts[4], 'base64')
+        };
+    }
+
+    static isLegacyHash(storedHash: string): boolean {
+        return !storedHash.startsWith(`$${this.ALGORITHM}$`);
+    }
+
+    static async hash(password: string): Promise<string> {
+        if (!password) {
+            throw new Error("Password is required");
+        }
+
+        const params = this.getCurrentParams();
+        const salt = randomBytes(this.SALT_LENGTH);
+        const derivedKey = await this.deriveKey(password, salt, params, this.KEY_LENGTH);
+
+        return `$${this.ALGORITHM}$ln=${params.cost},r=${params.blockSize},p=${params.parallelization}` +
+            `$${salt.toString('base64')}$${derivedKey.toString('base64')}`;
+    }
+
+    // Verify a password and report whether the stored hash should be replaced
+    static async verify(password: string, storedHash: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+        try {
+            if (!password || !storedHash) {
+                return { valid: false, needsRehash: false };
+            }
+
+            if (this.isLegacyHash(storedHash)) {
+                const decryptedPassword = await decryptData(storedHash, process.env.SECUREX_KEY as string);
+                const valid = decryptedPassword === password;
+                return { valid, needsRehash: valid };
+            }
+
+            const parsed = this.parseHash(storedHash);
+            if (!parsed) {
+                return { valid: false, needsRehash: false };
+            }
+
+            const derivedKey = await this.deriveKey(password, parsed.salt, parsed.params, parsed.hash.length);
+            const valid = derivedKey.length === parsed.hash.length && timingSafeEqual(derivedKey, parsed.hash);
+
+            return { valid, needsRehash: valid && this.needsRehash(storedHash) };
+        } catch (error) {
+            console.error('Password verification error:', error);
+            return { valid: false, needsRehash: false };
+        }
+    }
+
+    static needsRehash(storedHash: string): boolean {
+        const parsed = this.parseHash(storedHash);
+        if (!parsed) {
+            return true;
+        }
+
+        const current = this.getCurrentParams();
+        return parsed.params.cost !== current.cost ||
+            parsed.params.blockSize !== current.blockSize ||
+            parsed.params.parallelization !== current.parallelization ||
+            parsed.hash.length !== this.KEY_LENGTH;
+    }
+}
+
+export default PasswordService;
@@ -0,0 +1,55 @@
+import { Permission, Role } from "../../models/Role.js";
+
+/**
+ * Role Based Permissions
+ * - Every role maps to a fixed set of granular permissions
+ * - Routes declare what they need through AuthMiddleware.requirePermission
+ */
+class PermissionService {
+    private static readonly ALL_PERMISSIONS: Permission[] = [
+        "user:read",
+        "user:write",
+        "user:delete",
+        "user:role",
+        "brand:write",
+        "brand:moderate",
+        "product:write",
+        "product:moderate",
+        "referral:read",
+        "referral:admin",
+        "audit:read",
+        "identity:read"
+    ];
+
+    private static readonly ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+        user: ["brand:write", "product:write"],
+        support: ["brand:write", "product:write", "user:read", "referral:read"],
+        moderator: ["brand:write", "product:write", "user:read", "brand:moderate", "product:moderate"],
+        admin: PermissionService.ALL_PERMISSIONS
+    };
+
+    static isValidRole(role: any): role is Role {
+        return typeof role === "string" && Object.prototype.hasOwnProperty.call(this.ROLE_PERMISSIONS, role);
+    }
+
+    static isValidPermission(permission: any): permission is Permission {
+        return this.ALL_PERMISSIONS.includes(permission);
+    }
+
+    static getPermissionsForRole(role: Role): Permission[] {
+        return this.ROLE_PERMISSIONS[role] ?? [];
+    }
+
+    static hasPermission(role: Role, permission: Permission): boolean {
+        return this.getPermissionsForRole(role).includes(permission);
+    }
+
+    static getRoles(): { role: Role; permissions: Permission[] }[] {
+        return (Object.keys(this.ROLE_PERMISSIONS) as Role[]).map(role => ({
+            role,
+            permissions: this.ROLE_PERMISSIONS[role]
+        }));
+    }
+}
+
+export default PermissionService;
@@ -1,46 +1,269 @@
 import CacheService from "../Cache/cacheService.js";
-import { Product } from "../../models/Product.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import IdService from "../Id/idService.js";
+import DBService from "../DB/dbService.js";
+import AuditService from "../Audit/auditService.js";
+import BrandService from "../Brand/brandService.js";
+import BrandMemberService from "../BrandMember/brandMemberService.js";
+import ImageService from "../Image/imageService.js";
+import StorageService from "../Storage/storageService.js";
+import AppError from "../../helpers/AppError.js";
+import { Brand } from "../../models/Brand.js";
+import { Product, RequestProduct } from "../../models/Product.js";
+import { Role } from "../../models/Role.js";
+import { ClientContext } from "../../models/Session.js";
 
+/**
+ * Brand Product Catalogue
+ * - A brand's products live in the productList of the products document named by its productsdocid
+ * - Writes update the cached brand and product, then reach the DB through the product Kafka events
+ * - Owners and editors of the brand manage its products; only approved brands show them publicly
+ */
 class ProductService {
+    private static readonly MAX_NAME_LENGTH = 100;
+    private static readonly MAX_DESCRIPTION_LENGTH = 2000;
+    private static readonly CATEGORY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/i;
+    private static readonly MAX_PRODUCTS_PER_BRAND = 500;
 
-    // Generate unique productId in format PRD001M7Q
-    static async generateUniqueProductId(): Promise<string> {
+    // Validate the editable product fields, requiring all of them when creating
+    private static validateProductFields(body: any, isCreate: boolean): Partial<RequestProduct> {
+        if (!body || typeof body !== "object" || Array.isArray(body)) {
+            throw new AppError("Invalid product data", 400, "INVALID_PRODUCT");
+        }
+
+        const fields: Partial<RequestProduct> = {};
+
+        if (body.name !== undefined || isCreate) {
+            const name = typeof body.name === "string" ? body.name.trim() : "";
+            if (!name || name.length > this.MAX_NAME_LENGTH) {
+                throw new AppError(`Product name must be 1-${this.MAX_NAME_LENGTH} characters`, 400, "INVALID_PRODUCT_NAME");
+            }
+            fields.name = name;
+        }
+
+        if (body.description !== undefined || isCreate) {
+            const description = typeof body.description === "string" ? body.description.trim() : "";
+            if (description.length > this.MAX_DESCRIPTION_LENGTH) {
+                throw new AppError(`Description must be at most ${this.MAX_DESCRIPTION_LENGTH} characters`, 400, "INVALID_PRODUCT_DESCRIPTION");
+            }
+            fields.description = description;
+        }
+
+        if (body.categoryid !== undefined || isCreate) {
+            const categoryid = typeof body.categoryid === "string" ? body.categoryid.trim() : "";
+            if (!this.CATEGORY_PATTERN.test(categoryid)) {
+                throw new AppError("Category ID must be 1-50 letters, digits, hyphens or underscores", 400, "INVALID_PRODUCT_CATEGORY");
+            }
+            fields.categoryid = categoryid;
+        }
+
+        return fields;
+    }
+
+    private static async getManagedBrand(brandId: string, actor: { id: string; role: Role }): Promise<Brand> {
+        const brand = await CacheService.getBrand(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        await BrandMemberService.assertBrandRole(brand, actor, "editor");
+        return brand;
+    }
+
+    private static findBrandProduct(brand: Brand, productId: string): Product {
+        const product = brand.products?.find(item => item.productId === productId);
+        if (!product) {
+            throw new AppError("Product not found", 404, "PRODUCT_NOT_FOUND");
+        }
+        return product;
+    }
+
+    // Keep the product list of the cached brand, and the copy embedded on its owner, in step
+    private static async setBrandProducts(brand: Brand, products: Product[]): Promise<void> {
+        const updatedBrand: Brand = { ...brand, products };
+        await CacheService.setBrand(brand.brandid, updatedBrand);
+
+        const owner = await CacheService.getUser(brand.ownerid);
+        if (owner) {
+            await CacheService.setUser(owner.userId, { ...owner, brand: updatedBrand });
+        }
+    }
+
+    // Serialize product writes per brand so concurrent requests don't drop each other's cache changes
+    private static async withBrandLock<T>(brandId: string, operation: () => Promise<T>): Promise<T> {
+        const lockToken = await CacheService.acquireLock("product_write", brandId, 10);
+        if (!lockToken) {
+            throw new AppError("Another product change for this brand is in progress, please retry", 409, "PRODUCT_WRITE_IN_PROGRESS");
+        }
         try {
-            let attempts = 0;
-            const maxAttempts = 100;
-
-            while (attempts < maxAttempts) {
-                // Generate random 3-digit number (001-999)
-                const numPart = Math.floor(Math.random() * 999) + 1;
-                const paddedNum = numPart.toString().padStart(3, '0');
-
-                // Generate random 3-character alphanumeric (M7Q)
-                const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-                let alphaPart = '';
-                for (let i = 0; i < 3; i++) {
-                    alphaPart += chars.charAt(Math.floor(Math.random() * chars.length));
-                }
+            return await operation();
+        } finally {
+            await CacheService.releaseLock("product_write", brandId, lockToken);
+        }
+    }
 
-                const productId = `PRD${paddedNum}${alphaPart}`;
+    // Products of a publicly listed brand
+    static async getBrandProducts(brandId: string): Promise<Product[]> {
+        const brand = await BrandService.getBrandById(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        return brand.products ?? [];
+    }
 
-                // Check if productId already exists in cache
-                const existingProduct = await CacheService.getProduct(productId);
-                if (!existingProduct) {
-                    return productId;
-                }
+    static async getBrandProduct(brandId: string, productId: string): Promise<Product> {
+        const brand = await BrandService.getBrandById(brandId);
+        if (!brand) {
+            throw new AppError("Brand not found", 404, "BRAND_NOT_FOUND");
+        }
+        return this.findBrandProduct(brand, productId);
+    }
+
+    static async createProduct(brandId: string, actor: { id: string; role: Role }, body: RequestProduct, context: ClientContext = {}): Promise<Product> {
+        const fields = this.validateProductFields(body, true);
 
-                attempts++;
+        return this.withBrandLock(brandId, async () => {
+            const managedBrand = await this.getManagedBrand(brandId, actor);
+            const products = managedBrand.products ?? [];
+            if (products.length >= this.MAX_PRODUCTS_PER_BRAND) {
+                throw new AppError(`A brand can have at most ${this.MAX_PRODUCTS_PER_BRAND} products`, 400, "PRODUCT_LIMIT_REACHED");
             }
+            // A new product of an approved brand is only public once a reviewer approves the brand again
+            const brand = await BrandService.resubmitApprovedBrand(managedBrand, actor.id, context);
 
-            // Fallback: use timestamp if all attempts failed
-            const timestamp = Date.now().toString().slice(-6);
-            return `PRD${timestamp}`;
-        } catch (error) {
-            console.error('Error generating unique productId:', error);
-            // Emergency fallback
-            const emergency = Date.now().toString().slice(-9);
-            return `PRD${emergency}`;
+            const productId = IdService.generate("PRD");
+            const currentTimestamp = new Date().toISOString();
+            const product: Product = {
+                productId,
+                name: fields.name!,
+                description: fields.description!,
+                categoryid: fields.categoryid!,
+                brandid: brandId,
+                createdAt: currentTimestamp,
+                updatedAt: currentTimestamp
+            };
+
+            // Brands not yet persisted get the productsdocid they are created with, which is their brandid
+            const storedBrand = await DBService.findByField('brands', 'brandid', brandId);
+            const productdocid = storedBrand?.productsdocid ?? brandId;
+
+            await Promise.all([
+                CacheService.setProduct(productId, product),
+                this.setBrandProducts(brand, [...products, product])
+            ]);
+            KafkaService.sendProductCreateEvent(productId, { productdocid, brandid: brandId, product }).catch(error => {
+                console.error("Product create event error:", error);
+            });
+
+            AuditService.record("product.create", {
+                actorId: actor.id,
+                targetId: productId,
+                targetType: "product",
+                ...context,
+                outcome: "success",
+                metadata: { brandId }
+            });
+
+            return product;
+        });
+    }
+
+    // Apply changes to a product of the brand and send them to the DB
+    private static async saveProductChanges(brand: Brand, product: Product, changes: Partial<Product>): Promise<Product> {
+        const updatedProduct: Product = { ...product, ...changes, updatedAt: new Date().toISOString() };
+        const products = (brand.products ?? []).map(item => item.productId === product.productId ? updatedProduct : item);
+
+        await Promise.all([
+            CacheService.setProduct(product.productId, updatedProduct),
+            this.setBrandProducts(brand, products)
+        ]);
+        KafkaService.sendProductUpdateEvent(product.productId, updatedProduct).catch(error => {
+            console.error("Product update event error:", error);
+        });
+
+        return updatedProduct;
+    }
+
+    static async updateProduct(brandId: string, productId: string, actor: { id: string; role: Role }, body: Partial<RequestProduct>, context: ClientContext = {}): Promise<Product> {
+        const fields = this.validateProductFields(body, false);
+        if (Object.keys(fields).length === 0) {
+            throw new AppError("No product fields to update", 400, "NO_CHANGES");
         }
+
+        return this.withBrandLock(brandId, async () => {
+            const managedBrand = await this.getManagedBrand(brandId, actor);
+            const product = this.findBrandProduct(managedBrand, productId);
+            const brand = await BrandService.resubmitApprovedBrand(managedBrand, actor.id, context);
+            const updatedProduct = await this.saveProductChanges(brand, product, fields);
+
+            AuditService.record("product.update", {
+                actorId: actor.id,
+                targetId: productId,
+                targetType: "product",
+                ...context,
+                outcome: "success",
+                metadata: { brandId, fields: Object.keys(fields) }
+            });
+
+            return updatedProduct;
+        });
+    }
+
+    // Store an uploaded product image without its metadata and point the product at it
+    static async updateProductImage(brandId: string, productId: string, actor: { id: string; role: Role }, file: { buffer: Buffer }, context: ClientContext = {}): Promise<Product> {
+        const image = ImageService.sanitize(file.buffer);
+
+        return this.withBrandLock(brandId, async () => {
+            const managedBrand = await this.getManagedBrand(brandId, actor);
+            const product = this.findBrandProduct(managedBrand, productId);
+            const brand = await BrandService.resubmitApprovedBrand(managedBrand, actor.id, context);
+
+            const imageurl = await StorageService.save(
+                `brands/${brandId}/products/${productId}-${Date.now().toString(36)}.${image.extension}`,
+                image.data,
+                image.contentType
+            );
+            const updatedProduct = await this.saveProductChanges(brand, product, { imageurl });
+
+            StorageService.deleteByUrl(product.imageurl).catch(error => {
+                console.error("Old product image cleanup error:", error);
+            });
+
+            AuditService.record("product.update_image", {
+                actorId: actor.id,
+                targetId: productId,
+                targetType: "product",
+                ...context,
+                outcome: "success",
+                metadata: { brandId, contentType: image.contentType, size: image.data.length }
+            });
+
+            return updatedProduct;
+        });
+    }
+
+    static async deleteProduct(brandId: string, productId: string, actor: { id: string; role: Role }, context: ClientContext = {}): Promise<void> {
+        await this.withBrandLock(brandId, async () => {
+            const brand = await this.getManagedBrand(brandId, actor);
+            const product = this.findBrandProduct(brand, productId);
+
+            // The brand's own copy is authoritative, the product cache may not hold it
+            const result = await this.deleteProductById(productId, brand, product);
+            if (!result.success) {
+                if (result.message === 'Product not found') {
+                    throw new AppError("Product not found", 404, "PRODUCT_NOT_FOUND");
+                }
+                throw new Error(result.message);
+            }
+
+            AuditService.record("product.delete", {
+                actorId: actor.id,
+                targetId: productId,
+                targetType: "product",
+                ...context,
+                outcome: "success",
+                metadata: { brandId }
+            });
+        });
     }
 
     // Get all products with pagination using cache service
@@ -94,8 +317,8 @@ class ProductService {
         }
     }
 
-    // Delete product by ID
-    static async deleteProductById(productId: string): Promise<{ success: boolean; message: string }> {
+    // Delete product by ID, removing it from its brand's product list
+    static async deleteProductById(productId: string, brand?: Brand, knownProduct?: Product): Promise<{ success: boolean; message: string }> {
         try {
             if (!productId) {
                 return {
@@ -105,7 +328,7 @@ class ProductService {
             }
 
             // Get product data first
-            const product: Product | null = await CacheService.getProduct(productId);
+            const product: Product | null = knownProduct ?? await CacheService.getProduct(productId);
 
             if (!product) {
                 return {
@@ -114,8 +337,18 @@ class ProductService {
                 };
             }
 
-            // Delete product from cache
+            // Delete product from cache, the delete event pulls it from the products document
             await CacheService.deleteProduct(productId);
+            const productBrand = brand ?? (product.brandid ? await CacheService.getBrand(product.brandid) : null);
+            if (productBrand) {
+                await this.setBrandProducts(productBrand, (productBrand.products ?? []).filter(item => item.productId !== productId));
+            }
+            KafkaService.sendProductDeleteEvent(productId).catch(error => {
+                console.error("Product delete event error:", error);
+            });
+            StorageService.deleteByUrl(product.imageurl).catch(error => {
+                console.error("Product image cleanup error:", error);
+            });
 
             return {
                 success: true,
@@ -0,0 +1,129 @@
+import { UsState } from "../../models/Reference.js";
+
+/**
+ * Reference Data
+ * - US states, the District of Columbia and inhabited territories with their USPS codes
+ * - Free-form input (codes, names, common aliases) is normalized to the canonical code
+ */
+class ReferenceService {
+    private static readonly US_STATES: UsState[] = [
+        { code: "AL", name: "Alabama", type: "state" },
+        { code: "AK", name: "Alaska", type: "state" },
+        { code: "AZ", name: "Arizona", type: "state" },
+        { code: "AR", name: "Arkansas", type: "state" },
+        { code: "CA", name: "California", type: "state" },
+        { code: "CO", name: "Colorado", type: "state" },
+        { code: "CT", name: "Connecticut", type: "state" },
+        { code: "DE", name: "Delaware", type: "state" },
+        { code: "FL", name: "Florida", type: "state" },
+        { code: "GA", name: "Georgia", type: "state" },
+        { code: "HI", name: "Hawaii", type: "state" },
+        { code: "ID", name: "Idaho", type: "state" },
+        { code: "IL", name: "Illinois", type: "state" },
+        { code: "IN", name: "Indiana", type: "state" },
+        { code: "IA", name: "Iowa", type: "state" },
+        { code: "KS", name: "Kansas", type: "state" },
+        { code: "KY", name: "Kentucky", type: "state" },
+        { code: "LA", name: "Louisiana", type: "state" },
+        { code: "ME", name: "Maine", type: "state" },
+        { code: "MD", name: "Maryland", type: "state" },
+        { code: "MA", name: "Massachusetts", type: "state" },
+        { code: "MI", name: "Michigan", type: "state" },
+        { code: "MN", name: "Minnesota", type: "state" },
+        { code: "MS", name: "Mississippi", type: "state" },
+        { code: "MO", name: "Missouri", type: "state" },
+        { code: "MT", name: "Montana", type: "state" },
+        { code: "NE", name: "Nebraska", type: "state" },
+        { code: "NV", name: "Nevada", type: "state" },
+        { code: "NH", name: "New Hampshire", type: "state" },
+        { code: "NJ", name: "New Jersey", type: "state" },
+        { code: "NM", name: "New Mexico", type: "state" },
+        { code: "NY", name: "New York", type: "state" },
+        { code: "NC", name: "North Carolina", type: "state" },
+        { code: "ND", name: "North Dakota", type: "state" },
+        { code: "OH", name: "Ohio", type: "state" },
+        { code: "OK", name: "Oklahoma", type: "state" },
+        { code: "OR", name: "Oregon", type: "state" },
+        { code: "PA", name: "Pennsylvania", type: "state" },
+        { code: "RI", name: "Rhode Island", type: "state" },
+        { code: "SC", name: "South Carolina", type: "state" },
+        { code: "SD", name: "South Dakota", type: "state" },
+        { code: "TN", name: "Tennessee", type: "state" },
+        { code: "TX", name: "Texas", type: "state" },
+        { code: "UT", name: "Utah", type: "state" },
+        { code: "VT", name: "Vermont", type: "state" },
+        { code: "VA", name: "Virginia", type: "state" },
+        { code: "WA", name: "Washington", type: "state" },
+        { code: "WV", name: "West Virginia", type: "state" },
+        { code: "WI", name: "Wisconsin", type: "state" },
+        { code: "WY", name: "Wyoming", type: "state" },
+        { code: "DC", name: "District of Columbia", type: "district" },
+        { code: "AS", name: "American Samoa", type: "territory" },
+        { code: "GU", name: "Guam", type: "territory" },
+        { code: "MP", name: "Northern Mariana Islands", type: "territory" },
+        { code: "PR", name: "Puerto Rico", type: "territory" },
+        { code: "VI", name: "U.S. Virgin Islands", type: "territory" }
+    ];
+
+    // Informal names people commonly type, keyed like normalized input
+    private static readonly ALIASES: Record<string, string> = {
+        "cali": "CA",
+        "washington dc": "DC",
+        "washington d c": "DC",
+        "us virgin islands": "VI",
+        "virgin islands": "VI",
+        "usvi": "VI",
+        "cnmi": "MP"
+    };
+
+    private static lookup: Map<string, string> | null = null;
+
+    // Lowercase, drop periods and collapse whitespace so "N.Y." and "new  york" match
+    private static toLookupKey(value: string): string {
+        return value.toLowerCase().replace(/\./g, "").replace(/[\s_-]+/g, " ").trim();
+    }
+
+    private static getLookup(): Map<string, string> {
+        if (!this.lookup) {
+            this.lookup = new Map(Object.entries(this.ALIASES));
+            for (const state of this.US_STATES) {
+                this.lookup.set(this.toLookupKey(state.code), state.code);
+                this.lookup.set(this.toLookupKey(state.name), state.code);
+            }
+        }
+        return this.lookup;
+    }
+
+    static getUsStates(): UsState[] {
+        return this.US_STATES.map(state => ({ ...state }));
+    }
+
+    static isUsStateCode(code: any): boolean {
+        return typeof code === "string" && this.US_STATES.some(state => state.code === code);
+    }
+
+    // Canonical code for a state code, name or alias, null when it is not recognized
+    static normalizeUsState(value: any): string | null {
+        if (typeof value !== "string") {
+            return null;
+        }
+        return this.getLookup().get(this.toLookupKey(value)) ?? null;
+    }
+
+    // Normalize a list of states, returning the deduped codes and the values that were not recognized
+    static normalizeUsStates(values: any[]): { codes: string[]; invalid: string[] } {
+        const codes = new Set<string>();
+        const invalid: string[] = [];
+        for (const value of values) {
+            const code = this.normalizeUsState(value);
+            if (code) {
+                codes.add(code);
+            } else {
+                invalid.push(String(value));
+            }
+        }
+        return { codes: [...codes].sort(), invalid };
+    }
+}
+
+export default ReferenceService;
@@ -1,5 +1,6 @@
 import CacheService from "../Cache/cacheService.js";
 import KafkaService from "../Kafka/kafkaService.js";
+import DBService from "../DB/dbService.js";
 import { Refferals } from "../../models/Refferals.js";
 import { User } from "../../models/User.js";
 
@@ -152,6 +153,27 @@ class ReferralService {
         }
     }
 
+    // Anonymize a deleted user in the referral lists of whoever referred them
+    static async anonymizeReferredUser(userId: string): Promise<void> {
+        const referrers = await DBService.findByFilter('users', { 'refferals.refferalusers.userid': userId });
+
+        for (const referrer of referrers) {
+            const referralOwner: User = (await CacheService.getUser(referrer.userId)) ?? (referrer as unknown as User);
+            if (!referralOwner.refferals?.refferalusers) {
+                continue;
+            }
+
+            referralOwner.refferals.refferalusers = referralOwner.refferals.refferalusers.map(refUser =>
+                refUser.userid === userId
+                    ? { userid: "deleted", userfirstname: "Deleted", userlastname: "User", usercreatedat: refUser.usercreatedat }
+                    : refUser
+            );
+
+            await CacheService.setUser(referralOwner.userId, referralOwner);
+            await KafkaService.sendUserUpdateEvent(referralOwner.userId, referralOwner);
+        }
+    }
+
     // Helper method to find user by referral code using cache service
     private static async findUserByReferralCode(referralCode: string): Promise<User | null> {
         try {
@@ -0,0 +1,112 @@
+import { randomBytes, randomUUID } from "crypto";
+import CacheService from "../Cache/cacheService.js";
+import DBService from "../DB/dbService.js";
+import AppError from "../../helpers/AppError.js";
+import { ClientContext, Session } from "../../models/Session.js";
+
+/**
+ * Session Registry
+ * - One session per login, shared by every refresh token rotated from it (the token family)
+ * - Only the latest refresh token of a family is accepted; replaying an older one revokes the family
+ * - Sessions are written to Redis and straight to the database so revocation is never delayed
+ */
+class SessionService {
+    private static generateTokenId(): string {
+        return randomBytes(16).toString('hex');
+    }
+
+    // Create a new session and return the IDs for its first refresh token
+    static async createSession(userId: string, context: ClientContext = {}): Promise<{ sessionId: string; tokenId: string }> {
+        if (!userId) {
+            throw new Error("User ID is required to create a session");
+        }
+
+        const currentTimestamp = new Date().toISOString();
+        const session: Session = {
+            sessionId: randomUUID(),
+            userId,
+            currentTokenId: this.generateTokenId(),
+            createdAt: currentTimestamp,
+            lastRotatedAt: currentTimestamp,
+            revoked: false,
+            ip: context.ip,
+            userAgent: context.userAgent
+        };
+
+        await Promise.all([
+            DBService.insertData('sessions', { ...session }),
+            CacheService.setSession(session.sessionId, session)
+        ]);
+
+        return { sessionId: session.sessionId, tokenId: session.currentTokenId };
+    }
+
+    // Rotate a session's refresh token, revoking the whole family if an old token is replayed
+    static async rotateSession(sessionId: string, userId: string, presentedTokenId: string): Promise<string> {
+        const session = await CacheService.getSession(sessionId);
+        if (!session || session.userId !== userId) {
+            throw new AppError("Session not found, please log in again", 401, "SESSION_INVALID");
+        }
+
+        if (session.revoked) {
+            throw new AppError("Session has been revoked, please log in again", 401, "SESSION_REVOKED");
+        }
+
+        const updatedSession: Session = {
+            ...session,
+            currentTokenId: this.generateTokenId(),
+            lastRotatedAt: new Date().toISOString()
+        };
+
+        // Compare-and-swap in the database, so of two refreshes racing with one token only the first wins
+        const result = await DBService.updateOneByFilter('sessions', {
+            sessionId,
+            currentTokenId: presentedTokenId,
+            revoked: { $ne: true }
+        }, {
+            currentTokenId: updatedSession.currentTokenId,
+            lastRotatedAt: updatedSession.lastRotatedAt
+        });
+
+        if (result.modifiedCount === 0) {
+            await this.revokeSession(sessionId, "refresh_token_reuse");
+            console.warn(`Refresh token reuse detected for session ${sessionId}, session revoked`);
+            throw new AppError("Session has been revoked, please log in again", 401, "REFRESH_TOKEN_REUSED");
+        }
+
+        await CacheService.setSession(sessionId, updatedSession);
+
+        return updatedSession.currentTokenId;
+    }
+
+    static async revokeSession(sessionId: string, reason: string): Promise<void> {
+        const session = await CacheService.getSession(sessionId);
+        if (!session || session.revoked) {
+            return;
+        }
+
+        const revocation = {
+            revoked: true,
+            revokedAt: new Date().toISOString(),
+            revokedReason: reason
+        };
+
+        await Promise.all([
+            DBService.updateByField('sessions', 'sessionId', sessionId, revocation),
+            CacheService.setSession(sessionId, { ...session, ...revocation })
+        ]);
+    }
+
+    // Revoke every active session of a user, returning how many were revoked
+    static async revokeAllUserSessions(userId: string, reason: string): Promise<number> {
+        const activeSessions = await DBService.findByFilter('sessions', { userId, revoked: false }, 1000);
+
+        await Promise.all(activeSessions.map(session =>
+            this.revokeSession(session.sessionId, reason)
+        ));
+
+        return activeSessions.length;
+    }
+}
+
+export default SessionService;
@@ -0,0 +1,44 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageAdapter } from "../../models/Storage.js";
+
+// Stores files under UPLOAD_DIR and serves them through the /uploads static route
+class LocalDiskStorage implements StorageAdapter {
+    static readonly PUBLIC_PATH = "/uploads";
+
+    static getRootDir(): string {
+        return path.resolve(process.env.UPLOAD_DIR || "uploads");
+    }
+
+    // Resolve a key inside the upload directory, refusing keys that escape it
+    private resolvePath(key: string): string {
+        const rootDir = LocalDiskStorage.getRootDir();
+        const filePath = path.resolve(rootDir, key);
+        if (!filePath.startsWith(rootDir + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    private getBaseUrl(): string {
+        return `${(process.env.PUBLIC_BASE_URL || "").replace(/\/+$/, "")}${LocalDiskStorage.PUBLIC_PATH}/`;
+    }
+
+    async save(key: string, data: Buffer, contentType: string): Promise<string> {
+        const filePath = this.resolvePath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+        return `${this.getBaseUrl()}${key}`;
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolvePath(key), { force: true });
+    }
+
+    keyFromUrl(url: string): string | null {
+        const baseUrl = this.getBaseUrl();
+        return url.startsWith(baseUrl) ? url.slice(baseUrl.length) : null;
+    }
+}
+
+export default LocalDiskStorage;
@@ -0,0 +1,46 @@
+import LocalDiskStorage from "./localDiskStorage.js";
+import { StorageAdapter } from "../../models/Storage.js";
+
+/**
+ * File Storage
+ * - Uploads go through a StorageAdapter picked by STORAGE_DRIVER
+ * - "local" (the default) writes to disk so uploads work without any cloud service
+ * - Other backends only need to implement StorageAdapter and register below
+ */
+class StorageService {
+    private static adapter: StorageAdapter | null = null;
+
+    private static readonly DRIVERS: Record<string, () => StorageAdapter> = {
+        local: () => new LocalDiskStorage()
+    };
+
+    static getAdapter(): StorageAdapter {
+        if (!this.adapter) {
+            const driver = process.env.STORAGE_DRIVER || "local";
+            const createAdapter = this.DRIVERS[driver];
+            if (!createAdapter) {
+                throw new Error(`Unknown storage driver: ${driver}`);
+            }
+            this.adapter = createAdapter();
+        }
+        return this.adapter;
+    }
+
+    static async save(key: string, data: Buffer, contentType: string): Promise<string> {
+        return this.getAdapter().save(key, data, contentType);
+    }
+
+    // Remove a previously stored file by its URL, ignoring URLs this storage did not issue
+    static async deleteByUrl(url: string | undefined): Promise<void> {
+        if (!url) {
+            return;
+        }
+        const adapter = this.getAdapter();
+        const key = adapter.keyFromUrl(url);
+        if (key) {
+            await adapter.delete(key);
+        }
+    }
+}
+
+export default StorageService;
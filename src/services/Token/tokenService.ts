@@ -0,0 +1,68 @@
+import CacheService from "../Cache/cacheService.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import SessionService from "../Session/sessionService.js";
+
+/**
+ * Access Token Revocation
+ * - Every access token carries the user's token version at the time it was signed
+ * - Bumping the version invalidates all outstanding access tokens of that user at once
+ * - Tokens of revoked sessions (logout) are rejected through the session registry
+ */
+class TokenService {
+    // Current token version of a user, null when the user no longer exists
+    static async getTokenVersion(userId: string): Promise<number | null> {
+        return await CacheService.getTokenVersion(userId);
+    }
+
+    // Invalidate every access token issued to a user so far
+    static async bumpTokenVersion(userId: string): Promise<number> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new Error("User not found");
+        }
+
+        const tokenVersion = (user.tokenVersion ?? 0) + 1;
+        const updatedUser = { ...user, tokenVersion };
+
+        await Promise.all([
+            CacheService.setTokenVersion(userId, tokenVersion),
+            CacheService.setUser(userId, updatedUser)
+        ]);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Token version update event error:", error);
+        });
+
+        return tokenVersion;
+    }
+
+    // Invalidate every access and refresh token of a user
+    static async revokeAllUserTokens(userId: string, reason: string): Promise<void> {
+        await Promise.all([
+            this.bumpTokenVersion(userId),
+            SessionService.revokeAllUserSessions(userId, reason)
+        ]);
+    }
+
+    // Consume a one-time token, returning false if it has been used before
+    static async consumeOneTimeToken(tokenId: string, ttlSeconds: number): Promise<boolean> {
+        return await CacheService.markTokenConsumed(tokenId, ttlSeconds);
+    }
+
+    static async isAccessTokenRevoked(tokenData: any): Promise<boolean> {
+        const currentVersion = await this.getTokenVersion(tokenData.userId);
+        if (currentVersion === null || (tokenData.tokenVersion ?? 0) !== currentVersion) {
+            return true;
+        }
+
+        if (tokenData.sessionId) {
+            const session = await CacheService.getSession(tokenData.sessionId);
+            if (!session || session.revoked) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+}
+
+export default TokenService;
@@ -1,47 +1,22 @@
 import CacheService from "../Cache/cacheService.js";
-import { User } from "../../models/User.js";
+import { AdminUserView, PublicUser, UpdateUserProfile, User } from "../../models/User.js";
+import TokenService from "../Token/tokenService.js";
+import KafkaService from "../Kafka/kafkaService.js";
+import DBService from "../DB/dbService.js";
+import PermissionService from "../Permission/permissionService.js";
+import AppError from "../../helpers/AppError.js";
+import AuditService from "../Audit/auditService.js";
+import ApiKeyService from "../ApiKey/apiKeyService.js";
+import BillingVaultService from "../Billing/billingVaultService.js";
+import IdentityService from "../Identity/identityService.js";
+import ReferralService from "../Referral/refferalService.js";
+import BrandService from "../Brand/brandService.js";
+import BrandMemberService from "../BrandMember/brandMemberService.js";
+import { Role } from "../../models/Role.js";
+import { ClientContext } from "../../models/Session.js";
 
 class UserService {
-
-    // Generate unique userId in format USR001A2B
-    static async generateUniqueUserId(): Promise<string> {
-        try {
-            let attempts = 0;
-            const maxAttempts = 100;
-
-            while (attempts < maxAttempts) {
-                // Generate random 3-digit number (001-999)
-                const numPart = Math.floor(Math.random() * 999) + 1;
-                const paddedNum = numPart.toString().padStart(3, '0');
-
-                // Generate random 3-character alphanumeric (A2B)
-                const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-                let alphaPart = '';
-                for (let i = 0; i < 3; i++) {
-                    alphaPart += chars.charAt(Math.floor(Math.random() * chars.length));
-                }
-
-                const userId = `USR${paddedNum}${alphaPart}`;
-
-                // Check if userId already exists in cache
-                const existingUser = await CacheService.getUser(userId);
-                if (!existingUser) {
-                    return userId;
-                }
-
-                attempts++;
-            }
-
-            // Fallback: use timestamp if all attempts failed
-            const timestamp = Date.now().toString().slice(-6);
-            return `USR${timestamp}`;
-        } catch (error) {
-            console.error('Error generating unique userId:', error);
-            // Emergency fallback
-            const emergency = Date.now().toString().slice(-9);
-            return `USR${emergency}`;
-        }
-    }
+    private static readonly NAME_PATTERN = /^[\p{L}][\p{L} '\-]{0,49}$/u;
 
     // Get all users with pagination using cache service
     static async getAllUsersPaginated(page: number = 1, limit: number = 10): Promise<{ users: User[]; total: number; totalPages: number; currentPage: number } | null> {
@@ -93,8 +68,117 @@ class UserService {
         }
     }
 
-    // Delete user by ID with brand and products cleanup
-    static async deleteUserById(userId: string): Promise<{ success: boolean; message: string }> {
+    // Case-folded, trimmed form used for the unique email index
+    static normalizeEmail(email: string): string {
+        return email.trim().toLowerCase();
+    }
+
+    // Strip password, MFA secrets and full billing details before returning a user
+    static toPublicUser(user: User): PublicUser {
+        return {
+            userId: user.userId,
+            email: user.email,
+            verified: user.verified,
+            role: user.role,
+            firstname: user.firstname,
+            lastname: user.lastname,
+            createdAt: user.createdAt,
+            brandid: user.brandid || user.brand?.brandid || undefined,
+            mfaEnabled: Boolean(user.mfa?.enabled),
+            identityVerifiedAt: user.identityVerifiedAt,
+            deletionScheduledFor: user.deletionScheduledFor ?? null,
+            billingdata: user.billingdata?.last4 ? {
+                brand: user.billingdata.brand ?? "unknown",
+                last4: user.billingdata.last4
+            } : undefined
+        };
+    }
+
+    // Public fields plus the account state administrators need
+    static toAdminUser(user: User): AdminUserView {
+        return {
+            ...this.toPublicUser(user),
+            disabled: Boolean(user.disabled),
+            suspended: Boolean(user.suspended),
+            suspendedAt: user.suspendedAt ?? null,
+            suspendedReason: user.suspendedReason ?? null
+        };
+    }
+
+    // Update the editable profile fields of a user
+    static async updateProfile(userId: string, updates: UpdateUserProfile): Promise<User> {
+        const allowedFields: (keyof UpdateUserProfile)[] = ["firstname", "lastname"];
+        const unknownFields = Object.keys(updates).filter(field => !allowedFields.includes(field as keyof UpdateUserProfile));
+        if (unknownFields.length > 0) {
+            throw new AppError(`Fields cannot be updated: ${unknownFields.join(", ")}`, 400, "INVALID_FIELDS");
+        }
+
+        const changes: UpdateUserProfile = {};
+        for (const field of allowedFields) {
+            if (updates[field] === undefined) {
+                continue;
+            }
+            const value = typeof updates[field] === "string" ? updates[field]!.trim() : "";
+            if (!this.NAME_PATTERN.test(value)) {
+                throw new AppError(`${field} must be 1-50 letters, spaces, apostrophes or hyphens`, 400, "INVALID_NAME");
+            }
+            changes[field] = value;
+        }
+        if (Object.keys(changes).length === 0) {
+            throw new AppError("No profile fields to update", 400, "NO_CHANGES");
+        }
+
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+
+        const updatedUser: User = { ...user, ...changes };
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Profile update event error:", error);
+        });
+
+        return updatedUser;
+    }
+
+    // Everything stored about a user, as a downloadable archive
+    static async exportUserData(userId: string) {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+
+        const brandId = user.brandid || user.brand?.brandid;
+        const [brand, billing, apiKeys, brandMemberships] = await Promise.all([
+            brandId ? CacheService.getBrand(brandId) : Promise.resolve(null),
+            BillingVaultService.getMaskedCard(userId),
+            ApiKeyService.listApiKeys(userId),
+            BrandMemberService.listMembershipsForUser(userId)
+        ]);
+
+        return {
+            exportedAt: new Date().toISOString(),
+            profile: this.toPublicUser(user),
+            billing,
+            brand: brand ? { ...brand, products: undefined } : null,
+            products: brand?.products ?? [],
+            brandMemberships: brandMemberships.map(membership => ({
+                brandId: membership.brand.brandid,
+                brandName: membership.brand.name,
+                role: membership.role,
+                addedAt: membership.addedAt
+            })),
+            referrals: {
+                referralCode: user.refferals?.userrefferalcode ?? null,
+                referredUsers: user.refferals?.refferalusers ?? []
+            },
+            apiKeys
+        };
+    }
+
+    // Erase a user with their brand, products, vault and identity records, API keys, team memberships and referral entries
+    static async deleteUserById(userId: string, actorId?: string, context: ClientContext = {}): Promise<{ success: boolean; message: string }> {
         try {
             if (!userId) {
                 return {
@@ -113,24 +197,37 @@ class UserService {
                 };
             }
 
-            // Delete user's brand if exists
-            if (user.brand && user.brand.brandid) {
-                // Get brand to find associated products
-                const brand = await CacheService.getBrand(user.brand.brandid);
+            // Invalidate outstanding tokens and keys before the account disappears
+            await TokenService.revokeAllUserTokens(userId, "account_deleted");
+            await ApiKeyService.revokeAllUserApiKeys(userId);
 
-                if (brand && brand.products) {
-                    // Delete all brand products from cache
-                    for (const product of brand.products) {
-                        await CacheService.deleteProduct(product.productId);
-                    }
-                }
-
-                // Delete brand from cache
-                await CacheService.deleteBrand(user.brand.brandid);
+            // Delete user's brand and its products if exists
+            const brandId = user.brandid || user.brand?.brandid;
+            if (brandId) {
+                await BrandService.deleteBrandById(brandId, actorId ?? userId, context);
             }
 
+            await Promise.all([
+                user.billingdata?.token ? BillingVaultService.deleteCard(user.billingdata.token) : Promise.resolve(),
+                IdentityService.deleteIdentity(userId),
+                ReferralService.anonymizeReferredUser(userId),
+                BrandMemberService.removeUserFromTeams(userId)
+            ]);
+
             // Delete user from cache
             await CacheService.deleteUser(userId);
+            await CacheService.releaseEmail(this.normalizeEmail(user.email), userId);
+            KafkaService.sendUserDeleteEvent(userId).catch(error => {
+                console.error("User delete event error:", error);
+            });
+
+            AuditService.record("user.delete", {
+                actorId: actorId ?? userId,
+                targetId: userId,
+                targetType: "user",
+                ...context,
+                outcome: "success"
+            });
 
             return {
                 success: true,
@@ -144,37 +241,168 @@ class UserService {
             };
         }
     }
+    // Change a user's role and invalidate tokens carrying the old role
+    static async changeUserRole(userId: string, role: Role, actorId: string, context: ClientContext = {}): Promise<User> {
+        if (!PermissionService.isValidRole(role)) {
+            throw new AppError("Invalid role", 400, "INVALID_ROLE");
+        }
+        if (userId === actorId) {
+            throw new AppError("You cannot change your own role", 403, "FORBIDDEN");
+        }
+
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (user.role === role) {
+            return user;
+        }
+
+        const updatedUser: User = { ...user, role };
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Role update event error:", error);
+        });
+
+        // Access tokens carry the role claim, so outstanding ones must stop working
+        await TokenService.bumpTokenVersion(userId);
+
+        AuditService.record("admin.change_role", {
+            actorId,
+            targetId: userId,
+            targetType: "user",
+            ...context,
+            outcome: "success",
+            metadata: { previousRole: user.role, role }
+        });
+
+        return updatedUser;
+    }
+
+    // Search users by ID, email or name for the admin user list
+    static async searchUsers(search: string, page: number = 1, limit: number = 10) {
+        const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+        const { items, total } = await DBService.findPaginatedWithFilter('users', {
+            $or: [
+                { userId: pattern },
+                { email: pattern },
+                { firstname: pattern },
+                { lastname: pattern }
+            ]
+        }, page, limit);
+
+        return {
+            users: items as unknown as User[],
+            total,
+            totalPages: Math.ceil(total / limit),
+            currentPage: page
+        };
+    }
+
+    // Suspend a user, signing them out everywhere until unsuspended
+    static async suspendUser(userId: string, reason: string, actorId: string, context: ClientContext = {}): Promise<User> {
+        if (userId === actorId) {
+            throw new AppError("You cannot suspend your own account", 403, "FORBIDDEN");
+        }
+
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (user.suspended) {
+            throw new AppError("User is already suspended", 409, "USER_ALREADY_SUSPENDED");
+        }
+
+        const updatedUser: User = {
+            ...user,
+            suspended: true,
+            suspendedAt: new Date().toISOString(),
+            suspendedReason: reason
+        };
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Suspend user event error:", error);
+        });
+
+        await TokenService.revokeAllUserTokens(userId, "account_suspended");
+
+        AuditService.record("admin.suspend_user", {
+            actorId,
+            targetId: userId,
+            targetType: "user",
+            ...context,
+            outcome: "success",
+            metadata: { reason }
+        });
+
+        return (await CacheService.getUser(userId)) ?? updatedUser;
+    }
+
+    static async unsuspendUser(userId: string, actorId: string, context: ClientContext = {}): Promise<User> {
+        const user = await CacheService.getUser(userId);
+        if (!user) {
+            throw new AppError("User not found", 404, "USER_NOT_FOUND");
+        }
+        if (!user.suspended) {
+            throw new AppError("User is not suspended", 409, "USER_NOT_SUSPENDED");
+        }
+
+        const updatedUser: User = { ...user, suspended: false, suspendedAt: null, suspendedReason: null };
+        await CacheService.setUser(userId, updatedUser);
+        KafkaService.sendUserUpdateEvent(userId, updatedUser).catch(error => {
+            console.error("Unsuspend user event error:", error);
+        });
+
+        AuditService.record("admin.unsuspend_user", {
+            actorId,
+            targetId: userId,
+            targetType: "user",
+            ...context,
+            outcome: "success"
+        });
+
+        return updatedUser;
+    }
+
     static async isUserEmailExist(email: string): Promise<boolean> {
         try {
             if (!email) {
                 return false;
             }
 
-            let currentPage = 1;
-            let limit = 100;
-            let userData = await this.getAllUsersPaginated(currentPage, limit);
-            while (userData?.totalPages && currentPage <= userData.totalPages) {
-                const allUsers = userData?.users ?? [];
-                for (const user of allUsers) {
-                    if (user.email === email) {
-                        return true;
-                    }
-                }
-                currentPage++;
-                userData = await this.getAllUsersPaginated(currentPage, limit);
-
-                // Break if no more users or no totalPages info
-                if (!userData || !userData.users || userData.users.length === 0) {
-                    break;
-                }
-            }
-            return false;
+            const user = await this.findUserByEmail(email);
+            return !!user;
         } catch (error) {
             console.error('Check user email exist error:', error);
             return false;
         }
     }
 
+    // Find user by email through the normalized email index
+    static async findUserByEmail(email: string): Promise<User | null> {
+        try {
+            if (!email) {
+                return null;
+            }
+
+            const normalizedEmail = this.normalizeEmail(email);
+            const userId = await CacheService.getUserIdByEmail(normalizedEmail);
+            if (!userId) {
+                return null;
+            }
+
+            // The index entry can outlive an email change, so confirm it still matches
+            const user = await CacheService.getUser(userId);
+            if (!user || this.normalizeEmail(user.email) !== normalizedEmail) {
+                return null;
+            }
+            return user;
+        } catch (error) {
+            console.error('Find user by email error:', error);
+            return null;
+        }
+    }
+
 }
 
 export default UserService;